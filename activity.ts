@@ -0,0 +1,100 @@
+import { relative, isAbsolute } from "path"
+import type { ActivityKind } from "./types"
+
+/**
+ * Classifies builder agent tool calls into a small typed activity model,
+ * so "what is it doing?" can be answered without reading raw tool JSON.
+ */
+
+export interface ToolDescription {
+  kind: ActivityKind
+  /** Path, command or pattern the call acts on */
+  target: string | null
+  /** Present-tense summary, e.g. "Editing src/App.tsx" */
+  summary: string
+}
+
+const MAX_TARGET_CHARS = 200
+
+function clip(text: string): string {
+  const oneLine = text.replace(/\s+/g, " ").trim()
+  return oneLine.length > MAX_TARGET_CHARS ? oneLine.substring(0, MAX_TARGET_CHARS) + "…" : oneLine
+}
+
+function displayPath(path: unknown, projectDir: string): string | null {
+  if (typeof path !== "string" || !path) return null
+  if (!isAbsolute(path)) return path
+  const rel = relative(projectDir, path)
+  return rel && !rel.startsWith("..") ? rel : path
+}
+
+export function describeToolUse(name: string, input: Record<string, unknown>, projectDir: string): ToolDescription {
+  switch (name) {
+    case "Write": {
+      const path = displayPath(input.file_path, projectDir)
+      return { kind: "file_written", target: path, summary: `Writing ${path ?? "a file"}` }
+    }
+    case "Edit":
+    case "MultiEdit":
+    case "NotebookEdit": {
+      const path = displayPath(input.file_path ?? input.notebook_path, projectDir)
+      return { kind: "file_edited", target: path, summary: `Editing ${path ?? "a file"}` }
+    }
+    case "Read": {
+      const path = displayPath(input.file_path, projectDir)
+      return { kind: "file_read", target: path, summary: `Reading ${path ?? "a file"}` }
+    }
+    case "Bash": {
+      const command = typeof input.command === "string" ? clip(input.command) : null
+      return { kind: "command", target: command, summary: `Running \`${command ?? "a command"}\`` }
+    }
+    case "Grep":
+    case "Glob": {
+      const pattern = typeof input.pattern === "string" ? clip(input.pattern) : null
+      return { kind: "search", target: pattern, summary: `Searching for "${pattern ?? ""}"` }
+    }
+    case "WebSearch":
+    case "WebFetch": {
+      const target = typeof input.query === "string" ? input.query : typeof input.url === "string" ? input.url : null
+      return { kind: "web", target: target && clip(target), summary: `Looking up ${target ? clip(target) : "the web"}` }
+    }
+    case "Task":
+    case "TodoWrite": {
+      const target = typeof input.description === "string" ? clip(input.description) : null
+      return { kind: "task", target, summary: name === "TodoWrite" ? "Updating the task list" : `Delegating: ${target ?? "subtask"}` }
+    }
+    default:
+      return { kind: "other", target: null, summary: `Using ${name}` }
+  }
+}
+
+/** Past-tense summary for a finished call, e.g. "Ran `npm test` (exit 1)". */
+export function describeResult(
+  description: ToolDescription,
+  failed: boolean,
+  exitCode: number | null
+): string {
+  const target = description.target ?? ""
+  const base = (() => {
+    switch (description.kind) {
+      case "file_written": return `Wrote ${target}`
+      case "file_edited": return `Edited ${target}`
+      case "file_read": return `Read ${target}`
+      case "command": return `Ran \`${target}\`${exitCode !== null ? ` (exit ${exitCode})` : ""}`
+      case "search": return `Searched for "${target}"`
+      case "web": return `Looked up ${target}`
+      default: return description.summary
+    }
+  })()
+  return failed && description.kind !== "command" ? `${base} (failed)` : base
+}
+
+/**
+ * Exit status of a Bash call. Claude Code marks non-zero exits as errors and
+ * usually states the code in the output; successful calls report 0.
+ */
+export function parseExitCode(output: string, isError: boolean): number | null {
+  const match = output.match(/exit(?:ed with)? code:? (\d+)/i)
+  if (match) return Number(match[1])
+  return isError ? null : 0
+}
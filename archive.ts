@@ -0,0 +1,296 @@
+import { lstatSync, readdirSync } from "fs"
+import { join } from "path"
+
+/**
+ * Streaming project archives (zip or tar.gz) with no external tools.
+ * Files are read and compressed one chunk at a time, so only the entry
+ * list is held in memory regardless of project size.
+ */
+
+export type ArchiveFormat = "zip" | "tar.gz"
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  zip: "application/zip",
+  "tar.gz": "application/gzip",
+}
+
+export interface ArchiveEntry {
+  /** Path inside the archive, using forward slashes */
+  name: string
+  /** File on disk to read, or in-memory contents for generated files */
+  source: string | Uint8Array
+  size: number
+  mode: number
+  mtime: Date
+}
+
+/** List regular files under `root` (symlinks are skipped), prefixed with `prefix/`. */
+export function collectEntries(root: string, prefix: string, skipDirs: Set<string>): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = []
+  const walk = (dir: string, rel: string) => {
+    let names: string[]
+    try {
+      names = readdirSync(dir)
+    } catch {
+      return
+    }
+    for (const name of names.sort()) {
+      if (skipDirs.has(name)) continue
+      const fullPath = join(dir, name)
+      const relPath = rel ? `${rel}/${name}` : name
+      try {
+        const stat = lstatSync(fullPath)
+        if (stat.isDirectory()) {
+          walk(fullPath, relPath)
+        } else if (stat.isFile()) {
+          entries.push({
+            name: `${prefix}/${relPath}`,
+            source: fullPath,
+            size: stat.size,
+            mode: stat.mode & 0o777,
+            mtime: stat.mtime,
+          })
+        }
+      } catch { /* Skip inaccessible files */ }
+    }
+  }
+  walk(root, "")
+  return entries
+}
+
+export function createArchiveStream(format: ArchiveFormat, entries: ArchiveEntry[]): ReadableStream<Uint8Array> {
+  if (format === "zip") {
+    if (entries.length > 0xffff) throw new Error("Project has too many files for zip; use tar.gz instead")
+    return toStream(zipChunks(entries))
+  }
+  return compress(toStream(tarChunks(entries)), "gzip")
+}
+
+// ── Shared helpers ──────────────────────────────────────────
+
+const encoder = new TextEncoder()
+
+function toStream(chunks: AsyncGenerator<Uint8Array>): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await chunks.next()
+      if (done) controller.close()
+      else controller.enqueue(value)
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    },
+  })
+}
+
+function compress(stream: ReadableStream<Uint8Array>, format: CompressionFormat): ReadableStream<Uint8Array> {
+  // CompressionStream is typed over BufferSource; every chunk here is a Uint8Array
+  return stream.pipeThrough(new CompressionStream(format) as unknown as ReadableWritablePair<Uint8Array, Uint8Array>)
+}
+
+/**
+ * Yield exactly `entry.size` bytes: files that grow while being archived are
+ * cut off and files that shrink are zero-padded, so headers stay truthful.
+ */
+async function* entryContent(entry: ArchiveEntry): AsyncGenerator<Uint8Array> {
+  if (typeof entry.source !== "string") {
+    yield entry.source
+    return
+  }
+
+  let remaining = entry.size
+  for await (const chunk of Bun.file(entry.source).stream()) {
+    if (remaining <= 0) break
+    const part = chunk.length > remaining ? chunk.subarray(0, remaining) : chunk
+    remaining -= part.length
+    yield part
+  }
+  if (remaining > 0) yield new Uint8Array(remaining)
+}
+
+// ── tar (ustar + pax long names) ────────────────────────────
+
+const TAR_BLOCK = 512
+
+function writeString(buf: Uint8Array, offset: number, length: number, value: string): void {
+  buf.set(encoder.encode(value).subarray(0, length), offset)
+}
+
+function writeOctal(buf: Uint8Array, offset: number, length: number, value: number): void {
+  writeString(buf, offset, length, value.toString(8).padStart(length - 1, "0") + "\0")
+}
+
+function tarHeader(name: string, size: number, mode: number, mtime: Date, type: "0" | "x"): Uint8Array {
+  const header = new Uint8Array(TAR_BLOCK)
+  writeString(header, 0, 100, name)
+  writeOctal(header, 100, 8, mode)
+  writeOctal(header, 108, 8, 0)
+  writeOctal(header, 116, 8, 0)
+  writeOctal(header, 124, 12, size)
+  writeOctal(header, 136, 12, Math.floor(mtime.getTime() / 1000))
+  header.fill(0x20, 148, 156) // checksum is computed with its own field as spaces
+  writeString(header, 156, 1, type)
+  writeString(header, 257, 6, "ustar\0")
+  writeString(header, 263, 2, "00")
+
+  let checksum = 0
+  for (const byte of header) checksum += byte
+  writeString(header, 148, 8, checksum.toString(8).padStart(6, "0") + "\0 ")
+  return header
+}
+
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`
+  let length = body.length
+  while (String(length).length + body.length !== length) length = String(length).length + body.length
+  return `${length}${body}`
+}
+
+function tarPadding(size: number): Uint8Array | null {
+  const remainder = size % TAR_BLOCK
+  return remainder === 0 ? null : new Uint8Array(TAR_BLOCK - remainder)
+}
+
+async function* tarChunks(entries: ArchiveEntry[]): AsyncGenerator<Uint8Array> {
+  for (const entry of entries) {
+    const nameBytes = encoder.encode(entry.name)
+    if (nameBytes.length > 100) {
+      const pax = encoder.encode(paxRecord("path", entry.name))
+      yield tarHeader("PaxHeader", pax.length, 0o644, entry.mtime, "x")
+      yield pax
+      const padding = tarPadding(pax.length)
+      if (padding) yield padding
+    }
+
+    yield tarHeader(entry.name, entry.size, entry.mode, entry.mtime, "0")
+    yield* entryContent(entry)
+    const padding = tarPadding(entry.size)
+    if (padding) yield padding
+  }
+  yield new Uint8Array(TAR_BLOCK * 2)
+}
+
+// ── zip (deflate, data descriptors) ─────────────────────────
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32Update(crc: number, bytes: Uint8Array): number {
+  let c = crc ^ 0xffffffff
+  for (const byte of bytes) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980)
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+// General purpose flags: sizes/CRC follow the data (bit 3), UTF-8 names (bit 11)
+const ZIP_FLAGS = 0x0808
+const ZIP_DEFLATE = 8
+const ZIP_VERSION = 20
+const ZIP_MADE_BY_UNIX = (3 << 8) | ZIP_VERSION
+const ZIP_MAX_OFFSET = 0xffffffff
+
+async function* zipChunks(entries: ArchiveEntry[]): AsyncGenerator<Uint8Array> {
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const { time, date } = dosDateTime(entry.mtime)
+    const localOffset = offset
+
+    const local = new Uint8Array(30 + name.length)
+    const lv = new DataView(local.buffer)
+    lv.setUint32(0, 0x04034b50, true)
+    lv.setUint16(4, ZIP_VERSION, true)
+    lv.setUint16(6, ZIP_FLAGS, true)
+    lv.setUint16(8, ZIP_DEFLATE, true)
+    lv.setUint16(10, time, true)
+    lv.setUint16(12, date, true)
+    lv.setUint16(26, name.length, true)
+    local.set(name, 30)
+    yield local
+    offset += local.length
+
+    // CRC and uncompressed size are tallied as the content passes through
+    let crc = 0
+    let uncompressed = 0
+    const content = entryContent(entry)
+    const raw = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { done, value } = await content.next()
+        if (done) {
+          controller.close()
+          return
+        }
+        crc = crc32Update(crc, value)
+        uncompressed += value.length
+        controller.enqueue(value)
+      },
+    })
+
+    let compressed = 0
+    for await (const chunk of compress(raw, "deflate-raw")) {
+      compressed += chunk.length
+      yield chunk
+    }
+    offset += compressed
+
+    const descriptor = new Uint8Array(16)
+    const dv = new DataView(descriptor.buffer)
+    dv.setUint32(0, 0x08074b50, true)
+    dv.setUint32(4, crc, true)
+    dv.setUint32(8, compressed, true)
+    dv.setUint32(12, uncompressed, true)
+    yield descriptor
+    offset += descriptor.length
+
+    if (offset > ZIP_MAX_OFFSET) throw new Error("Archive exceeds 4 GB; use tar.gz instead")
+
+    const record = new Uint8Array(46 + name.length)
+    const cv = new DataView(record.buffer)
+    cv.setUint32(0, 0x02014b50, true)
+    cv.setUint16(4, ZIP_MADE_BY_UNIX, true)
+    cv.setUint16(6, ZIP_VERSION, true)
+    cv.setUint16(8, ZIP_FLAGS, true)
+    cv.setUint16(10, ZIP_DEFLATE, true)
+    cv.setUint16(12, time, true)
+    cv.setUint16(14, date, true)
+    cv.setUint32(16, crc, true)
+    cv.setUint32(20, compressed, true)
+    cv.setUint32(24, uncompressed, true)
+    cv.setUint16(28, name.length, true)
+    cv.setUint32(38, ((0o100000 | entry.mode) << 16) >>> 0, true)
+    cv.setUint32(42, localOffset, true)
+    record.set(name, 46)
+    central.push(record)
+  }
+
+  let centralSize = 0
+  for (const record of central) {
+    yield record
+    centralSize += record.length
+  }
+
+  const end = new Uint8Array(22)
+  const ev = new DataView(end.buffer)
+  ev.setUint32(0, 0x06054b50, true)
+  ev.setUint16(8, central.length, true)
+  ev.setUint16(10, central.length, true)
+  ev.setUint32(12, centralSize, true)
+  ev.setUint32(16, offset, true)
+  yield end
+}
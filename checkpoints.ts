@@ -0,0 +1,138 @@
+import { spawn } from "bun"
+import { existsSync, mkdirSync, writeFileSync } from "fs"
+import { join } from "path"
+import type { Checkpoint } from "./types"
+import { ValidationError } from "./errors"
+import { DEFAULT_ENV_ALLOWLIST, scrubEnv } from "./sandbox"
+
+/**
+ * Git-backed project checkpoints. Each project gets its own repo; PearBot
+ * commits everything (minus build/dependency dirs) at phase boundaries.
+ *
+ * git runs on the host, outside the sandbox, so the repo lives outside the
+ * project directory: an agent that could write its config or hooks would
+ * get its code run with the host's privileges.
+ */
+
+const GIT_IDENTITY = ["-c", "user.name=PearBot", "-c", "user.email=pearbot@localhost"]
+// Nothing the host's own git config sets may run code either
+const GIT_HARDENING = ["-c", "core.hooksPath=/dev/null", "-c", "core.fsmonitor=false"]
+const FIELD_SEP = "\x1f"
+
+/** A project's checkpoint repo: the git directory and the files it tracks. */
+export interface CheckpointRepo {
+  gitDir: string
+  workTree: string
+}
+
+interface GitResult {
+  code: number
+  stdout: string
+  stderr: string
+}
+
+async function git(repo: CheckpointRepo, args: string[]): Promise<GitResult> {
+  const location = [`--git-dir=${repo.gitDir}`, `--work-tree=${repo.workTree}`]
+  const proc = spawn(["git", ...GIT_HARDENING, ...GIT_IDENTITY, ...location, ...args], {
+    cwd: repo.workTree,
+    env: { ...scrubEnv(process.env, DEFAULT_ENV_ALLOWLIST), GIT_TERMINAL_PROMPT: "0" },
+    stdin: "ignore",
+    stdout: "pipe",
+    stderr: "pipe",
+  })
+  const [stdout, stderr, code] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ])
+  return { code, stdout, stderr }
+}
+
+async function gitOrThrow(repo: CheckpointRepo, args: string[]): Promise<string> {
+  const result = await git(repo, args)
+  if (result.code !== 0) {
+    throw new Error(`git ${args[0]} failed: ${result.stderr.trim() || `exit code ${result.code}`}`)
+  }
+  return result.stdout
+}
+
+/** Accept only commit hashes and HEAD-relative refs, so refs can't smuggle in options. */
+export function isValidRef(ref: string): boolean {
+  return /^[0-9a-f]{4,40}$/i.test(ref) || /^HEAD(~\d{1,4})?$/.test(ref)
+}
+
+export function hasRepo(repo: CheckpointRepo): boolean {
+  return existsSync(join(repo.gitDir, "HEAD"))
+}
+
+/** Initialize the repo if there isn't one, excluding the given dirs. */
+export async function ensureRepo(repo: CheckpointRepo, excludeDirs: Iterable<string>): Promise<void> {
+  if (hasRepo(repo)) return
+  mkdirSync(repo.gitDir, { recursive: true, mode: 0o700 })
+  await gitOrThrow(repo, ["init", "--quiet"])
+
+  // Exclude via info/exclude so the project's own .gitignore stays untouched
+  const infoDir = join(repo.gitDir, "info")
+  mkdirSync(infoDir, { recursive: true })
+  const patterns = Array.from(excludeDirs, (d) => `${d}/`)
+  writeFileSync(join(infoDir, "exclude"), patterns.join("\n") + "\n")
+}
+
+/** Stage everything and commit. Returns the new hash, or null if nothing changed. */
+export async function commitAll(repo: CheckpointRepo, message: string): Promise<string | null> {
+  await gitOrThrow(repo, ["add", "-A"])
+  const status = await gitOrThrow(repo, ["status", "--porcelain"])
+  if (!status.trim()) return null
+
+  await gitOrThrow(repo, ["commit", "--quiet", "--no-verify", "-m", message])
+  return (await gitOrThrow(repo, ["rev-parse", "HEAD"])).trim()
+}
+
+export async function listCheckpoints(repo: CheckpointRepo, limit: number): Promise<Checkpoint[]> {
+  if (!hasRepo(repo)) return []
+  const result = await git(repo, [
+    "log",
+    `--max-count=${limit}`,
+    `--format=%H${FIELD_SEP}%h${FIELD_SEP}%aI${FIELD_SEP}%s`,
+  ])
+  // A fresh repo with no commits yet has no HEAD to log
+  if (result.code !== 0) return []
+
+  return result.stdout
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [hash, shortHash, createdAt, message] = line.split(FIELD_SEP)
+      return { hash, shortHash, createdAt, message }
+    })
+}
+
+/**
+ * Diff between two checkpoints. With only `from`, diffs it against HEAD;
+ * with neither, shows the changes introduced by the latest checkpoint.
+ */
+export async function diffCheckpoints(
+  repo: CheckpointRepo,
+  options: { from?: string; to?: string; stat?: boolean }
+): Promise<string> {
+  for (const ref of [options.from, options.to]) {
+    if (ref !== undefined && !isValidRef(ref)) throw new ValidationError(`Invalid checkpoint ref "${ref}"`)
+  }
+  const statFlag = options.stat ? ["--stat"] : []
+
+  if (!options.from) {
+    return gitOrThrow(repo, ["show", "--format=", ...statFlag, options.to ?? "HEAD"])
+  }
+  return gitOrThrow(repo, ["diff", ...statFlag, options.from, options.to ?? "HEAD"])
+}
+
+/**
+ * Make the working tree match `ref` and record that as a new commit, so a
+ * rollback never rewrites history and can itself be rolled back.
+ */
+export async function restoreCheckpoint(repo: CheckpointRepo, ref: string, message: string): Promise<string | null> {
+  if (!isValidRef(ref)) throw new ValidationError(`Invalid checkpoint ref "${ref}"`)
+  await gitOrThrow(repo, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`])
+  await gitOrThrow(repo, ["read-tree", "-u", "--reset", ref])
+  return commitAll(repo, message)
+}
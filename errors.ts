@@ -0,0 +1,80 @@
+/**
+ * Errors with an HTTP status, so the REST routes can answer every failure
+ * the same way: the matching status code and `{ error, code }`. Anything
+ * else thrown is reported as a 500 `internal` error.
+ */
+
+export type ErrorCode =
+  | "invalid_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "budget_exceeded"
+  | "unavailable"
+  | "internal"
+
+export interface ErrorBody {
+  error: string
+  code: ErrorCode
+}
+
+export class PearBotError extends Error {
+  constructor(message: string, readonly status: number, readonly code: ErrorCode) {
+    super(message)
+    this.name = new.target.name
+  }
+}
+
+/** The request itself is malformed or asks for something impossible. */
+export class ValidationError extends PearBotError {
+  constructor(message: string) {
+    super(message, 400, "invalid_request")
+  }
+}
+
+/** No valid API token was presented. */
+export class UnauthorizedError extends PearBotError {
+  constructor(message: string) {
+    super(message, 401, "unauthorized")
+  }
+}
+
+/** The API token is valid but lacks the scope the route requires. */
+export class ForbiddenError extends PearBotError {
+  constructor(message: string) {
+    super(message, 403, "forbidden")
+  }
+}
+
+export class NotFoundError extends PearBotError {
+  constructor(message: string) {
+    super(message, 404, "not_found")
+  }
+}
+
+/** The request is valid but the project's current state doesn't allow it. */
+export class ConflictError extends PearBotError {
+  constructor(message: string) {
+    super(message, 409, "conflict")
+  }
+}
+
+export class BudgetError extends PearBotError {
+  constructor(message: string) {
+    super(message, 402, "budget_exceeded")
+  }
+}
+
+export class UnavailableError extends PearBotError {
+  constructor(message: string) {
+    super(message, 503, "unavailable")
+  }
+}
+
+export function toErrorResponse(error: unknown): { status: number; body: ErrorBody } {
+  if (error instanceof PearBotError) {
+    return { status: error.status, body: { error: error.message, code: error.code } }
+  }
+  return { status: 500, body: { error: error instanceof Error ? error.message : String(error), code: "internal" } }
+}
@@ -0,0 +1,123 @@
+import { realpathSync, statSync } from "fs"
+import { isAbsolute, resolve, sep } from "path"
+import type { ProjectFileContent } from "./types"
+import { NotFoundError, ValidationError } from "./errors"
+
+/**
+ * Read-only access to files inside a project directory. Every path is
+ * resolved against the project root and rejected if it escapes it,
+ * whether through `..` segments, absolute paths or symlinks.
+ */
+
+/** Default cap on bytes returned when no range is requested. */
+const MAX_READ_BYTES = 256 * 1024
+/** Line ranges need the whole file in memory, so they are capped separately. */
+const MAX_LINE_MODE_BYTES = 10 * 1024 * 1024
+const BINARY_SNIFF_BYTES = 8 * 1024
+
+export interface ReadFileOptions {
+  /** Byte offset to start reading at */
+  offset?: number
+  /** Number of bytes to read from `offset` */
+  length?: number
+  /** First line to return (1-based, inclusive) */
+  startLine?: number
+  /** Last line to return (1-based, inclusive) */
+  endLine?: number
+  /** Return binary content base64-encoded instead of omitting it */
+  base64?: boolean
+}
+
+/** Resolve `relativePath` inside `root`, following symlinks. Throws if it escapes. */
+export function resolveProjectPath(root: string, relativePath: string): string {
+  if (relativePath.includes("\0")) throw new ValidationError("Invalid path")
+  if (isAbsolute(relativePath)) throw new ValidationError("Path must be relative to the project directory")
+  if (relativePath.split(/[\\/]+/).includes("..")) {
+    throw new ValidationError("Path escapes the project directory")
+  }
+
+  const rootReal = realpathSync(root)
+  let real: string
+  try {
+    real = realpathSync(resolve(rootReal, relativePath))
+  } catch {
+    throw new NotFoundError(`File not found: ${relativePath}`)
+  }
+
+  if (real !== rootReal && !real.startsWith(rootReal + sep)) {
+    throw new ValidationError("Path escapes the project directory")
+  }
+  return real
+}
+
+function looksBinary(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, BINARY_SNIFF_BYTES)
+  if (sample.includes(0)) return true
+  // Invalid UTF-8 in the sample also counts as binary
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true })
+    return false
+  } catch {
+    return true
+  }
+}
+
+export async function readProjectFile(
+  root: string,
+  relativePath: string,
+  options: ReadFileOptions = {}
+): Promise<ProjectFileContent> {
+  const fullPath = resolveProjectPath(root, relativePath)
+  const stat = statSync(fullPath)
+  if (stat.isDirectory()) throw new ValidationError(`${relativePath} is a directory`)
+
+  const file = Bun.file(fullPath)
+  const size = stat.size
+  const mimeType = file.type.split(";")[0] || "application/octet-stream"
+  const binary = looksBinary(new Uint8Array(await file.slice(0, BINARY_SNIFF_BYTES).arrayBuffer()))
+
+  const result: ProjectFileContent = {
+    path: relativePath,
+    size,
+    mimeType,
+    binary,
+    encoding: binary ? "base64" : "utf-8",
+    content: "",
+    byteRange: null,
+    lineRange: null,
+    truncated: false,
+  }
+
+  const wantsLines = options.startLine !== undefined || options.endLine !== undefined
+  if (wantsLines && !binary) {
+    if (size > MAX_LINE_MODE_BYTES) {
+      throw new ValidationError(`File is too large for line ranges (${size} bytes); use a byte range instead`)
+    }
+    const text = await file.text()
+    const lines = (text.endsWith("\n") ? text.slice(0, -1) : text).split("\n")
+    const start = Math.max(options.startLine ?? 1, 1)
+    const end = Math.min(options.endLine ?? lines.length, lines.length)
+    let content = lines.slice(start - 1, end).join("\n")
+    if (content.length > MAX_READ_BYTES) {
+      content = content.substring(0, MAX_READ_BYTES)
+      result.truncated = true
+    }
+    result.content = content
+    result.lineRange = { start, end, total: lines.length }
+    return result
+  }
+
+  if (binary && !options.base64) return result
+
+  const start = Math.min(Math.max(options.offset ?? 0, 0), size)
+  const requested = options.length ?? size - start
+  const length = Math.min(Math.max(requested, 0), MAX_READ_BYTES, size - start)
+  const bytes = new Uint8Array(await file.slice(start, start + length).arrayBuffer())
+
+  result.content = binary
+    ? Buffer.from(bytes).toString("base64")
+    : new TextDecoder().decode(bytes)
+  result.byteRange = { start, end: start + bytes.length }
+  result.truncated = bytes.length < requested
+  return result
+}
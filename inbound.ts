@@ -0,0 +1,324 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import { UnauthorizedError, UnavailableError, ValidationError } from "./errors"
+import type { PearBotManager, PluginDb } from "./manager"
+import type { NotificationVerbosity, PearBotEvent, PluginContext, PluginWebhook, ProjectStatus } from "./types"
+
+/**
+ * Inbound triggers: external systems create projects or hand existing ones a
+ * new task by POSTing to `/trigger` (a plugin webhook) or `/github` (a plugin
+ * route, which needs the raw body). `/trigger` requests send the shared
+ * `inboundWebhookSecret` as `X-PearBot-Secret` or a bearer token; GitHub
+ * signs its deliveries with it (`X-Hub-Signature-256`). Only comments from
+ * the repository's own people (`githubAllowedAssociations`) become tasks.
+ *
+ * An optional external id (e.g. a GitHub issue) is remembered, so later
+ * requests about the same thing continue its project instead of starting
+ * a new one.
+ */
+
+const NAME_MAX_CHARS = 80
+
+export type TriggerResponse =
+  | { action: "created" | "opened"; projectId: string; status: ProjectStatus }
+  | { ignored: string }
+  | { error: string }
+
+type WebhookRequest = Parameters<PluginWebhook["handler"]>[0]
+
+type TriggerSource = "generic" | "github"
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/** A nested object of a webhook payload, or an empty one when it is missing or not an object. */
+function record(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {}
+}
+
+/** Payload text, with missing values as "". */
+function str(value: unknown): string {
+  return value === undefined || value === null ? "" : String(value)
+}
+
+function optionalString(body: Record<string, unknown>, key: string): string | undefined {
+  const value = body[key]
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== "string") throw new Error(`${key} must be a string`)
+  return value.trim() || undefined
+}
+
+function header(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name)
+  return key === undefined ? undefined : headers[key]
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+/** Whether `signature` (`sha256=<hex>`) is the HMAC-SHA256 of `rawBody` under `secret`. */
+export function verifyGitHubSignature(secret: string, rawBody: string, signature: string | undefined): boolean {
+  if (!signature?.startsWith("sha256=")) return false
+  const expected = "sha256=" + createHmac("sha256", secret).update(rawBody).digest("hex")
+  return safeEqual(signature, expected)
+}
+
+const DEFAULT_GITHUB_ASSOCIATIONS = "OWNER, MEMBER, COLLABORATOR"
+
+export class TriggerHandler {
+  private secret: string
+  private githubLabel: string
+  /** `author_association` values whose issues and comments may become tasks */
+  private githubAssociations: Set<string>
+  /** Forgets the external ids of deleted projects */
+  private listener = (event: PearBotEvent) => {
+    if (event.type === "status" && event.data.to === "deleted") this.forget(event.projectId)
+  }
+
+  constructor(private ctx: PluginContext, private manager: PearBotManager) {
+    this.secret = ctx.getSetting<string>("inboundWebhookSecret") || ""
+    this.githubLabel = (ctx.getSetting<string>("githubTriggerLabel") ?? "pearbot").trim()
+    this.githubAssociations = new Set(
+      (ctx.getSetting<string>("githubAllowedAssociations") || DEFAULT_GITHUB_ASSOCIATIONS)
+        .split(",")
+        .map((a) => a.trim().toUpperCase())
+        .filter(Boolean)
+    )
+  }
+
+  init(): void {
+    this.getDb().run(`
+      CREATE TABLE IF NOT EXISTS pearbot_triggers (
+        source TEXT NOT NULL,
+        external_id TEXT NOT NULL,
+        project_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (source, external_id)
+      )
+    `)
+    this.manager.on("event", this.listener)
+  }
+
+  stop(): void {
+    this.manager.off("event", this.listener)
+  }
+
+  webhooks(): PluginWebhook[] {
+    return [
+      { path: "/trigger", method: "POST", handler: (request) => this.handle(request, (r) => this.handleGeneric(r)) },
+    ]
+  }
+
+  /**
+   * A GitHub webhook delivery, checked against its `X-Hub-Signature-256`.
+   * Accepts both the JSON and the form-encoded (`payload=`) content types.
+   */
+  async handleGitHubDelivery(request: Request): Promise<TriggerResponse> {
+    const rawBody = await request.text()
+    const headers: Record<string, string> = {}
+    request.headers.forEach((value, name) => {
+      headers[name] = value
+    })
+    if (!this.secret) throw new UnavailableError("Inbound webhooks are disabled; set inboundWebhookSecret to enable them")
+    if (!verifyGitHubSignature(this.secret, rawBody, header(headers, "x-hub-signature-256"))) {
+      throw new UnauthorizedError("Invalid or missing X-Hub-Signature-256")
+    }
+    const form = header(headers, "content-type")?.startsWith("application/x-www-form-urlencoded")
+    let body: unknown
+    try {
+      body = JSON.parse(form ? new URLSearchParams(rawBody).get("payload") ?? "" : rawBody)
+    } catch {
+      throw new ValidationError("Malformed GitHub payload")
+    }
+    return this.handleGitHub({ body, headers, query: {} })
+  }
+
+  private async handle(
+    request: WebhookRequest,
+    handler: (request: WebhookRequest) => Promise<TriggerResponse>
+  ): Promise<TriggerResponse> {
+    const denied = this.authenticate(request)
+    if (denied) return { error: denied }
+    try {
+      return await handler(request)
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) }
+    }
+  }
+
+  private authenticate({ headers }: WebhookRequest): string | null {
+    if (!this.secret) return "Inbound webhooks are disabled; set inboundWebhookSecret to enable them"
+    const bearer = header(headers, "authorization")?.match(/^Bearer\s+(.+)$/i)?.[1]
+    const provided = header(headers, "x-pearbot-secret") ?? bearer
+    if (!provided || !safeEqual(provided, this.secret)) return "Unauthorized"
+    return null
+  }
+
+  /**
+   * Generic JSON: `{ name, description, tech_stack?, budget_usd?, verbosity? }`
+   * creates a project; `{ project_id, task, fresh? }` continues one. With
+   * `external_id`, a known id continues its project (`task`, or the
+   * description, becomes the task) and an unknown one creates and remembers it.
+   */
+  private async handleGeneric({ body }: WebhookRequest): Promise<TriggerResponse> {
+    if (!isRecord(body)) throw new Error("Expected a JSON object body")
+
+    const externalId = optionalString(body, "external_id")
+    const projectId = optionalString(body, "project_id") ?? (externalId ? this.lookup("generic", externalId) : undefined)
+    const task = optionalString(body, "task")
+    const description = optionalString(body, "description")
+
+    if (projectId) {
+      const text = task ?? description
+      if (!text) throw new Error("task is required to continue a project")
+      return this.open(projectId, text, body.fresh === true, "generic", externalId)
+    }
+
+    const name = optionalString(body, "name")
+    if (!name || !description) throw new Error("name and description are required to create a project")
+    const budget = body.budget_usd
+    if (budget !== undefined && (typeof budget !== "number" || !isFinite(budget) || budget < 0)) {
+      throw new Error("budget_usd must be a non-negative number")
+    }
+    return this.create("generic", externalId, name, description, {
+      techStack: optionalString(body, "tech_stack"),
+      budgetUsd: budget as number | undefined,
+      verbosity: optionalString(body, "verbosity") as NotificationVerbosity | undefined,
+    })
+  }
+
+  /**
+   * GitHub `issues` and `issue_comment` events. An issue that is opened (or
+   * labeled) with `githubTriggerLabel` creates a project; new comments on
+   * that issue become tasks for it. Issues opened and comments written by
+   * anyone outside `githubAllowedAssociations` are ignored: their text would
+   * run as an agent task on this host.
+   */
+  private async handleGitHub({ body, headers }: WebhookRequest): Promise<TriggerResponse> {
+    const event = header(headers, "x-github-event")
+    if (event === "ping") return { ignored: "ping" }
+    if (!isRecord(body) || !isRecord(body.issue) || !isRecord(body.repository)) {
+      throw new ValidationError("Expected a GitHub issues or issue_comment payload")
+    }
+
+    const issue = body.issue
+    const externalId = `${str(body.repository.full_name)}#${str(issue.number)}`
+    const existing = this.lookup("github", externalId)
+
+    if (event === "issue_comment") {
+      if (body.action !== "created") return { ignored: `issue_comment ${str(body.action)}` }
+      if (!existing) return { ignored: `${externalId} has no PearBot project` }
+      const comment = record(body.comment)
+      if (record(comment.user).type === "Bot") return { ignored: "comment from a bot" }
+      if (!this.isTrusted(comment.author_association)) {
+        return { ignored: `comment author is ${str(comment.author_association) || "unknown"}, not a trusted association` }
+      }
+      const content = str(comment.body).trim()
+      if (!content) return { ignored: "empty comment" }
+      const task = `Follow-up from ${externalId} (${str(comment.html_url) || "comment"}):\n\n${content}`
+      return this.open(existing, task, false, "github", externalId)
+    }
+
+    if (event !== "issues") return { ignored: `event ${event ?? "(none)"}` }
+    if (body.action !== "opened" && body.action !== "labeled") return { ignored: `issues ${str(body.action)}` }
+    if (existing) return { ignored: `${externalId} already has project ${existing}` }
+    // Labeling takes triage access, but anyone can open an issue (with a label, through a template)
+    if (body.action === "opened" && !this.isTrusted(issue.author_association)) {
+      return { ignored: `issue author is ${str(issue.author_association) || "unknown"}, not a trusted association` }
+    }
+    // ...so only adding the trigger label itself vouches for the issue
+    if (body.action === "labeled") {
+      if (!this.githubLabel) return { ignored: "labeled events need a githubTriggerLabel" }
+      const added = str(record(body.label).name)
+      if (added !== this.githubLabel) return { ignored: `added label "${added}" is not "${this.githubLabel}"` }
+    }
+    const labels = Array.isArray(issue.labels)
+      ? issue.labels.map((label: unknown) => str(isRecord(label) ? label.name : label))
+      : []
+    if (this.githubLabel && !labels.includes(this.githubLabel)) {
+      return { ignored: `issue is not labeled "${this.githubLabel}"` }
+    }
+
+    const title = str(issue.title).trim() || `Issue ${str(issue.number)}`
+    const description = [
+      title,
+      "",
+      str(issue.body).trim(),
+      "",
+      `Source: ${str(issue.html_url) || externalId}`,
+    ].join("\n").trim()
+    return this.create("github", externalId, title.substring(0, NAME_MAX_CHARS), description, {})
+  }
+
+  private isTrusted(association: unknown): boolean {
+    return typeof association === "string" && this.githubAssociations.has(association.toUpperCase())
+  }
+
+  private async create(
+    source: TriggerSource,
+    externalId: string | undefined,
+    name: string,
+    description: string,
+    options: { techStack?: string; budgetUsd?: number; verbosity?: NotificationVerbosity }
+  ): Promise<TriggerResponse> {
+    const { projectId, status } = await this.manager.createProject(name, description, options.techStack, {
+      budgetUsd: options.budgetUsd,
+      verbosity: options.verbosity,
+    })
+    if (externalId) this.remember(source, externalId, projectId)
+    await this.announce(`started project "${name}" (${projectId})`, source, externalId)
+    return { action: "created", projectId, status }
+  }
+
+  private async open(
+    projectId: string,
+    task: string,
+    fresh: boolean,
+    source: TriggerSource,
+    externalId: string | undefined
+  ): Promise<TriggerResponse> {
+    const { status } = await this.manager.openProject(projectId, task, { fresh })
+    await this.announce(`gave project ${projectId} a new task`, source, externalId)
+    return { action: "opened", projectId, status }
+  }
+
+  private async announce(what: string, source: TriggerSource, externalId: string | undefined): Promise<void> {
+    const origin = source === "github" ? `GitHub ${externalId}` : `An external trigger${externalId ? ` (${externalId})` : ""}`
+    try {
+      await this.ctx.sendClaudeMessage(`<system>PEARBOT: ${origin} ${what}.</system>`)
+    } catch {
+      // Ignore send failures
+    }
+  }
+
+  private lookup(source: TriggerSource, externalId: string): string | undefined {
+    const row = this.getDb()
+      .query("SELECT project_id FROM pearbot_triggers WHERE source = ? AND external_id = ?")
+      .get(source, externalId)
+    const projectId = row?.project_id as string | undefined
+    // The project may have been deleted since
+    return projectId && this.manager.getStatus(projectId).length > 0 ? projectId : undefined
+  }
+
+  private remember(source: TriggerSource, externalId: string, projectId: string): void {
+    this.getDb().run(
+      "INSERT OR REPLACE INTO pearbot_triggers (source, external_id, project_id, created_at) VALUES (?, ?, ?, ?)",
+      source, externalId, projectId, new Date().toISOString()
+    )
+  }
+
+  private forget(projectId: string): void {
+    try {
+      this.getDb().run("DELETE FROM pearbot_triggers WHERE project_id = ?", projectId)
+    } catch (error) {
+      this.ctx.log.error(`Failed to delete triggers for ${projectId}:`, error)
+    }
+  }
+
+  private getDb(): PluginDb {
+    return this.ctx.getDb() as PluginDb
+  }
+}
@@ -4,11 +4,89 @@
  * from scratch, with real-time progress updates and interactive Q&A.
  */
 
-import type { PluginContext, PluginRegistrations } from "./types"
+import type {
+  AgentPolicyUpdate,
+  ClarifyQuestion,
+  NotificationVerbosity,
+  PearBotEvent,
+  PluginContext,
+  PluginRegistrations,
+  RemovalPlan,
+  TokenScope,
+  UsageTotals,
+  VerificationRecord,
+  WebhookDelivery,
+} from "./types"
 import { PearBotManager } from "./manager"
-import { Elysia } from "elysia"
+import { proxyHttp, relayWebSocket, splitPreviewUrl, stripTokenParam, type SocketRelay } from "./preview"
+import { TOKEN_SCOPES, TokenStore } from "./tokens"
+import { describePolicy, policyUpdateFromArgs } from "./policy"
+import { WebhookDispatcher } from "./webhooks"
+import { TriggerHandler } from "./inbound"
+import { NotFoundError, toErrorResponse, UnavailableError, ValidationError, type ErrorBody, type ErrorCode } from "./errors"
+import { Elysia, t } from "elysia"
+
+const SSE_REPLAY_LIMIT = 50
+const SSE_KEEPALIVE_MS = 15_000
 
 let manager: PearBotManager | null = null
+let webhooks: WebhookDispatcher | null = null
+let triggers: TriggerHandler | null = null
+let tokens: TokenStore | null = null
+/** Open preview WebSocket relays, keyed by client socket id */
+const previewSockets = new Map<string, SocketRelay>()
+/** SSE clients; the manager gets one "event" listener that fans out to them. */
+const eventSubscribers = new Set<(event: PearBotEvent) => void>()
+
+const AGENT_POLICY_PROPERTY = {
+  type: "object",
+  description:
+    "Optional agent policy; omitted fields keep the current value (plugin settings for new projects), null clears one. " +
+    "E.g. a read-only review: { allowed_tools: ['Read', 'Grep', 'Glob'] }, or no shell: { disallowed_tools: ['Bash'] }.",
+  properties: {
+    model: { type: ["string", "null"], description: "Model name or alias for the agent" },
+    max_turns: { type: ["number", "null"], description: "Maximum agent turns per run" },
+    allowed_tools: {
+      type: ["array", "null"],
+      items: { type: "string" },
+      description: "Only these tools are permitted (e.g. 'Read', 'Edit', 'Bash(npm test:*)')",
+    },
+    disallowed_tools: { type: ["array", "null"], items: { type: "string" }, description: "Tools the agent may never use" },
+    system_prompt_append: { type: ["string", "null"], description: "Extra instructions appended to the builder system prompt" },
+  },
+}
+
+/** `?limit=`-style paging parameters: a positive integer, or absent */
+const LIMIT_QUERY = t.Optional(t.Numeric({ minimum: 1, multipleOf: 1 }))
+
+const AGENT_POLICY_SCHEMA = t.Object({
+  model: t.Optional(t.Nullable(t.String())),
+  max_turns: t.Optional(t.Nullable(t.Integer({ minimum: 1 }))),
+  allowed_tools: t.Optional(t.Nullable(t.Array(t.String()))),
+  disallowed_tools: t.Optional(t.Nullable(t.Array(t.String()))),
+  system_prompt_append: t.Optional(t.Nullable(t.String())),
+})
+
+/** The manager, or a 503 for routes hit while the plugin is inactive. */
+function active(): PearBotManager {
+  if (!manager) throw new UnavailableError("Plugin not active")
+  return manager
+}
+
+/**
+ * A REST agent policy change, which needs an admin token on top of the
+ * route's scope: it can lift a project's tool restrictions.
+ */
+function policyUpdateFromRequest(request: Request, agentPolicy: unknown): AgentPolicyUpdate {
+  if (agentPolicy === undefined) return {}
+  if (!tokens) throw new UnavailableError("Plugin not active")
+  tokens.authorize(request, "admin")
+  return policyUpdateFromArgs(agentPolicy)
+}
+
+function errorBody(code: ErrorCode, error: string): ErrorBody {
+  return { error, code }
+}
 
 function ok(text: string) {
   return { content: [{ type: "text" as const, text }], isError: false }
@@ -18,32 +96,457 @@ function err(text: string) {
   return { content: [{ type: "text" as const, text }], isError: true }
 }
 
+function formatTokens(n: number): string {
+  return n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n)
+}
+
+function formatUsage(usage: UsageTotals, budgetUsd: number | null): string {
+  const minutes = Math.round(usage.wallClockMs / 60000)
+  return [
+    `${formatTokens(usage.inputTokens + usage.cacheReadTokens + usage.cacheCreationTokens)} in / ${formatTokens(usage.outputTokens)} out tokens`,
+    `$${usage.costUsd.toFixed(2)}${budgetUsd ? ` of $${budgetUsd.toFixed(2)} budget` : ""}`,
+    `${usage.turns} turns`,
+    `${minutes} min`,
+  ].join(", ")
+}
+
+function formatVerification(record: VerificationRecord): string {
+  const steps = record.steps
+    .map((s) => `${s.name} ${s.exitCode === 0 ? "✓" : s.timedOut ? "timed out" : `✗ (exit ${s.exitCode})`}`)
+    .join(", ")
+  return `${record.status}${record.attempt > 1 ? ` (attempt ${record.attempt})` : ""}${steps ? ` — ${steps}` : ""}`
+}
+
+function formatQuestionChoices(question: ClarifyQuestion): string {
+  const parts: string[] = []
+  if (question.options) parts.push(question.options.map((o, i) => `${i + 1}) ${o}`).join(" "))
+  if (question.default !== null) parts.push(`default "${question.default}"${question.deadline ? ` at ${question.deadline}` : ""}`)
+  return parts.length ? ` [${parts.join("; ")}]` : ""
+}
+
+function formatRemovalPlan(plan: RemovalPlan, dryRun: boolean): string {
+  const verb = plan.action === "delete" ? (dryRun ? "Would delete" : "Deleted") : (dryRun ? "Would archive" : "Archived")
+  const lines = [`${verb} "${plan.name}" (${plan.projectId}) — ${plan.status}, ${(plan.sizeBytes / 1024 / 1024).toFixed(1)} MB`]
+  if (plan.reason) lines.push(`  Reason: ${plan.reason}`)
+  lines.push(`  Directory: ${plan.directory}`)
+  if (plan.action === "archive" && plan.archivePath) lines.push(`  Archive: ${plan.archivePath}`)
+  if (plan.stopsAgent) lines.push(`  ${dryRun ? "Would stop" : "Stopped"} running agent`)
+  if (plan.stopsServer) lines.push(`  ${dryRun ? "Would stop" : "Stopped"} dev server`)
+  return lines.join("\n")
+}
+
+/**
+ * Server-Sent Events stream of manager events, optionally scoped to one project.
+ * Replays recent history on connect (or everything after `Last-Event-ID`).
+ */
+function eventStream(mgr: PearBotManager, request: Request, projectId?: string): Response {
+  const encoder = new TextEncoder()
+  const lastEventId = request.headers.get("last-event-id")
+  const afterId = lastEventId && !isNaN(Number(lastEventId)) ? Number(lastEventId) : undefined
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+      const send = (event: PearBotEvent) => {
+        write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+      }
+      const listener = (event: PearBotEvent) => {
+        if (!projectId || event.projectId === projectId) send(event)
+      }
+
+      const replay = mgr.getRecentEvents({
+        projectId,
+        afterId,
+        limit: afterId === undefined ? SSE_REPLAY_LIMIT : undefined,
+      })
+      for (const event of replay) send(event)
+
+      eventSubscribers.add(listener)
+      const keepAlive = setInterval(() => write(": keep-alive\n\n"), SSE_KEEPALIVE_MS)
+
+      cleanup = () => {
+        clearInterval(keepAlive)
+        eventSubscribers.delete(listener)
+      }
+      request.signal.addEventListener("abort", () => {
+        cleanup()
+        try { controller.close() } catch { /* Already closed */ }
+      })
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  })
+}
+
 export async function activate(ctx: PluginContext): Promise<PluginRegistrations> {
   ctx.log.info("Activating PearBot plugin")
 
   manager = new PearBotManager(ctx)
   await manager.init()
+  manager.on("event", (event: PearBotEvent) => {
+    for (const subscriber of eventSubscribers) subscriber(event)
+  })
+  webhooks = new WebhookDispatcher(ctx, manager)
+  webhooks.init()
+  triggers = new TriggerHandler(ctx, manager)
+  triggers.init()
+  tokens = new TokenStore(ctx)
+  tokens.init()
 
   return {
     routes: () =>
       new Elysia()
-        .get("/projects", () => {
-          if (!manager) return { error: "Plugin not active" }
-          return manager.listAll()
+        .onError(({ code, error, set }) => {
+          // Elysia's own failures (schema validation, bad JSON, unknown routes) use the same model
+          if (code === "VALIDATION") {
+            const first = error.all[0]
+            set.status = 400
+            return errorBody("invalid_request", first?.summary ?? first?.message ?? "Invalid request")
+          }
+          if (code === "PARSE") {
+            set.status = 400
+            return errorBody("invalid_request", "Malformed request body")
+          }
+          if (code === "NOT_FOUND") {
+            set.status = 404
+            return errorBody("not_found", "Route not found")
+          }
+          const { status, body } = toErrorResponse(error)
+          set.status = status
+          return body
+        })
+        // Every API route names the token scope it needs. The preview proxy (opened in
+        // browsers from chat) and /github (signed by GitHub) take no token.
+        .macro({
+          scope: (scope: TokenScope) => ({
+            // transform runs before body validation, so callers without a token learn nothing
+            transform({ request }) {
+              if (!tokens) throw new UnavailableError("Plugin not active")
+              tokens.authorize(request, scope)
+            },
+          }),
+        })
+        .onAfterResponse(({ request, set }) => {
+          tokens?.recordResponse(request, typeof set.status === "number" ? set.status : 200)
         })
-        .get("/projects/:id", ({ params }) => {
-          if (!manager) return { error: "Plugin not active" }
-          const projects = manager.getStatus(params.id)
-          if (projects.length === 0) return { error: "Project not found" }
-          return projects[0]
+        .get(
+          "/audit",
+          ({ query }) => {
+            if (!tokens) throw new UnavailableError("Plugin not active")
+            return {
+              entries: tokens.getAudit({
+                tokenId: query.token_id,
+                limit: query.limit,
+              }),
+            }
+          },
+          { scope: "admin", query: t.Object({ token_id: t.Optional(t.String()), limit: LIMIT_QUERY }) }
+        )
+        .post(
+          "/github",
+          async ({ request }) => {
+            if (!triggers) throw new UnavailableError("Plugin not active")
+            return triggers.handleGitHubDelivery(request)
+          },
+          { parse: "none" }
+        )
+        .get("/projects", () => active().listAll(), { scope: "read" })
+        .post(
+          "/projects",
+          async ({ body, request, set }) => {
+            const result = await active().createProject(body.name, body.description, body.tech_stack, {
+              budgetUsd: body.budget_usd,
+              verbosity: body.verbosity as NotificationVerbosity | undefined,
+              agentPolicy: policyUpdateFromRequest(request, body.agent_policy),
+            })
+            set.status = 201
+            return result
+          },
+          {
+            scope: "build",
+            body: t.Object({
+              name: t.String({ minLength: 1 }),
+              description: t.String({ minLength: 1 }),
+              tech_stack: t.Optional(t.String()),
+              budget_usd: t.Optional(t.Number({ minimum: 0 })),
+              verbosity: t.Optional(t.String()),
+              agent_policy: t.Optional(AGENT_POLICY_SCHEMA),
+            }),
+          }
+        )
+        .get("/events", ({ request }) => eventStream(active(), request), { scope: "read" })
+        .get(
+          "/webhooks/deliveries",
+          ({ query }) => {
+            if (!webhooks) throw new UnavailableError("Plugin not active")
+            return {
+              deliveries: webhooks.getDeliveries({
+                status: query.status as WebhookDelivery["status"] | undefined,
+                projectId: query.project_id,
+                limit: query.limit,
+              }),
+            }
+          },
+          {
+            scope: "admin",
+            query: t.Object({ status: t.Optional(t.String()), project_id: t.Optional(t.String()), limit: LIMIT_QUERY }),
+          }
+        )
+        .get("/usage", () => active().getGlobalSpend(), { scope: "read" })
+        .get("/queue", () => ({ queue: active().getQueue() }), { scope: "read" })
+        .get("/retention", () => active().applyRetention(true), { scope: "read" })
+        .post("/retention/apply", () => active().applyRetention(false), { scope: "admin" })
+        .get(
+          "/projects/:id",
+          ({ params }) => {
+            const projects = active().getStatus(params.id)
+            if (projects.length === 0) throw new NotFoundError(`Project ${params.id} not found`)
+            return { ...projects[0], runs: active().getRuns(params.id) }
+          },
+          { scope: "read" }
+        )
+        .delete(
+          "/projects/:id",
+          ({ params, query }) => active().deleteProject(params.id, { dryRun: query.dry_run === "true" }),
+          { scope: "admin" }
+        )
+        .post(
+          "/projects/:id/reply",
+          async ({ params, body }) => {
+            if (body.question_id !== undefined || body.choice !== undefined) {
+              return active().answerQuestion(params.id, body.question_id, { choice: body.choice, note: body.message })
+            }
+            if (!body.message) throw new ValidationError("message is required unless question_id or choice is given")
+            return { ...(await active().sendToProject(params.id, body.message)), pendingQuestions: [] }
+          },
+          {
+            scope: "build",
+            body: t.Object({
+              message: t.Optional(t.String()),
+              question_id: t.Optional(t.String()),
+              choice: t.Optional(t.String()),
+            }),
+          }
+        )
+        .post(
+          "/projects/:id/open",
+          ({ params, body, request }) =>
+            active().openProject(params.id, body.task, {
+              fresh: body.fresh === true,
+              agentPolicy: policyUpdateFromRequest(request, body.agent_policy),
+            }),
+          {
+            scope: "build",
+            body: t.Object({
+              task: t.String({ minLength: 1 }),
+              fresh: t.Optional(t.Boolean()),
+              agent_policy: t.Optional(AGENT_POLICY_SCHEMA),
+            }),
+          }
+        )
+        .post(
+          "/projects/:id/stop",
+          ({ params }) => {
+            if (!active().hasProject(params.id)) throw new NotFoundError(`Project ${params.id} not found`)
+            return active().stopProject(params.id)
+          },
+          { scope: "build" }
+        )
+        .post(
+          "/projects/:id/serve",
+          ({ params, body }) => active().serveProject(params.id, body?.command),
+          { scope: "serve", body: t.Optional(t.Object({ command: t.Optional(t.String({ minLength: 1 })) })) }
+        )
+        .delete("/projects/:id/serve", ({ params }) => active().stopServer(params.id), { scope: "serve" })
+        .post(
+          "/projects/:id/archive",
+          ({ params, query }) => active().archiveProject(params.id, { dryRun: query.dry_run === "true" }),
+          { scope: "admin" }
+        )
+        .get("/projects/:id/files", ({ params }) => ({ files: active().listProjectFiles(params.id) }), { scope: "read" })
+        .get(
+          "/projects/:id/files/*",
+          async ({ params, query }) => {
+            const path = decodeURIComponent(params["*"])
+            const num = (v: string | undefined) => (v === undefined || v === "" ? undefined : Number(v))
+            if (query.raw === "true") {
+              // Agent-written HTML/JS/SVG must never render on the API's origin
+              const file = Bun.file(active().resolveProjectFile(params.id, path))
+              const filename = (path.split("/").pop() || "file").replace(/["\\\r\n]/g, "_")
+              return new Response(file, {
+                headers: {
+                  "Content-Type": "application/octet-stream",
+                  "Content-Disposition": `attachment; filename="${filename}"`,
+                  "X-Content-Type-Options": "nosniff",
+                  "Content-Security-Policy": "sandbox",
+                },
+              })
+            }
+            return active().readProjectFile(params.id, path, {
+              offset: num(query.offset),
+              length: num(query.length),
+              startLine: num(query.start_line),
+              endLine: num(query.end_line),
+              base64: query.base64 === "true",
+            })
+          },
+          { scope: "read" }
+        )
+        .get(
+          "/projects/:id/archive",
+          ({ params, query }) => {
+            const format = query.format || "zip"
+            if (format !== "zip" && format !== "tar.gz") throw new ValidationError("format must be zip or tar.gz")
+            const archive = active().exportProject(params.id, format)
+            return new Response(archive.stream, {
+              headers: {
+                "Content-Type": archive.contentType,
+                "Content-Disposition": `attachment; filename="${archive.filename}"`,
+              },
+            })
+          },
+          { scope: "read" }
+        )
+        .get(
+          "/projects/:id/events",
+          ({ params, request }) => {
+            if (!active().hasProject(params.id)) throw new NotFoundError(`Project ${params.id} not found`)
+            return eventStream(active(), request, params.id)
+          },
+          { scope: "read" }
+        )
+        .get(
+          "/projects/:id/history",
+          async ({ params, query }) => ({
+            checkpoints: await active().getHistory(params.id, query.limit),
+          }),
+          { scope: "read", query: t.Object({ limit: LIMIT_QUERY }) }
+        )
+        .get(
+          "/projects/:id/diff",
+          ({ params, query }) =>
+            active().getDiff(params.id, {
+              from: query.from || undefined,
+              to: query.to || undefined,
+              stat: query.stat === "true",
+            }),
+          { scope: "read" }
+        )
+        .post(
+          "/projects/:id/rollback",
+          ({ params, body }) => active().rollbackProject(params.id, body.checkpoint),
+          { scope: "build", body: t.Object({ checkpoint: t.String({ minLength: 1 }) }) }
+        )
+        .get(
+          "/projects/:id/activity",
+          ({ params, query }) => ({
+            activity: active().getActivity(params.id, query.limit),
+          }),
+          { scope: "read", query: t.Object({ limit: LIMIT_QUERY }) }
+        )
+        .get(
+          "/projects/:id/logs",
+          ({ params, query }) => ({
+            lines: active().getServerLogs(params.id, query.lines),
+          }),
+          { scope: "read", query: t.Object({ lines: LIMIT_QUERY }) }
+        )
+        .get("/projects/:id/questions", ({ params }) => ({ questions: active().getQuestions(params.id) }), { scope: "read" })
+        .get("/projects/:id/env", ({ params }) => ({ variables: active().listProjectEnv(params.id) }), { scope: "read" })
+        .put(
+          "/projects/:id/env/:name",
+          ({ params, body }) => active().setProjectEnv(params.id, params.name, body.value, { secret: body.secret !== false }),
+          { scope: "build", body: t.Object({ value: t.String(), secret: t.Optional(t.Boolean()) }) }
+        )
+        .delete(
+          "/projects/:id/env/:name",
+          ({ params }) => {
+            const { removed } = active().unsetProjectEnv(params.id, params.name)
+            if (!removed) throw new NotFoundError(`Project ${params.id} has no variable ${params.name}`)
+            return { removed }
+          },
+          { scope: "build" }
+        )
+        .get("/projects/:id/sessions", ({ params }) => ({ sessions: active().getSessionChain(params.id) }), { scope: "read" })
+        .get(
+          "/projects/:id/transcript",
+          ({ params, query }) =>
+            active().getTranscript(params.id, {
+              after: query.cursor,
+              limit: query.limit,
+              tail: query.tail === "true",
+            }),
+          {
+            scope: "read",
+            query: t.Object({
+              cursor: t.Optional(t.Numeric({ minimum: 0, multipleOf: 1 })),
+              limit: LIMIT_QUERY,
+              tail: t.Optional(t.String()),
+            }),
+          }
+        )
+        .all("/preview/:id", ({ params }) => {
+          // Relative redirect keeps whatever prefix the plugin is mounted under
+          return new Response(null, { status: 308, headers: { location: `${params.id}/` } })
         })
-        .get("/projects/:id/files", ({ params }) => {
-          if (!manager) return { error: "Plugin not active" }
+        .all("/preview/:id/*", async ({ params, request }) => {
+          if (!manager) return new Response("Plugin not active", { status: 503 })
+          const url = new URL(request.url)
+          const { publicPrefix, rest } = splitPreviewUrl(url, params.id)
           try {
-            return { files: manager.listProjectFiles(params.id) }
+            const target = manager.getPreviewTarget(params.id, rest)
+            return await proxyHttp(request, { port: target.port, path: target.path + stripTokenParam(url.search), publicPrefix })
           } catch (e) {
-            return { error: e instanceof Error ? e.message : String(e) }
+            return new Response(e instanceof Error ? e.message : String(e), { status: 404 })
           }
+        })
+        .ws("/preview/:id/*", {
+          open(ws) {
+            const { params, request } = ws.data
+            if (!manager) return void ws.close(1011, "Plugin not active")
+            const url = new URL(request.url)
+            const { publicPrefix, rest } = splitPreviewUrl(url, params.id)
+            try {
+              const target = manager.getPreviewTarget(params.id, rest)
+              const protocols = (request.headers.get("sec-websocket-protocol") ?? "")
+                .split(",")
+                .map((p) => p.trim())
+                .filter(Boolean)
+              previewSockets.set(
+                ws.id,
+                relayWebSocket(ws, { port: target.port, path: target.path + stripTokenParam(url.search), publicPrefix }, protocols)
+              )
+            } catch (e) {
+              ws.close(1011, e instanceof Error ? e.message : String(e))
+            }
+          },
+          message(ws, message) {
+            // Elysia has already parsed JSON and scalar text frames; turn them back into text
+            const frame = typeof message === "string" || ArrayBuffer.isView(message) || message instanceof ArrayBuffer
+              ? (message as string | BufferSource)
+              : JSON.stringify(message)
+            previewSockets.get(ws.id)?.send(frame)
+          },
+          close(ws, code, reason) {
+            previewSockets.get(ws.id)?.close(code, reason)
+            previewSockets.delete(ws.id)
+          },
         }),
 
     tools: [
@@ -70,6 +573,16 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
                 description:
                   "Optional tech stack preference (e.g. 'React + TypeScript', 'Python Flask', 'Next.js')",
               },
+              budget_usd: {
+                type: "number",
+                description: "Optional spend limit in USD. The agent is stopped once it is exceeded. Defaults to the plugin setting.",
+              },
+              verbosity: {
+                type: "string",
+                enum: ["all", "milestones", "final-only"],
+                description: "Which progress updates to post in chat: all, milestones (phase changes) or final-only (questions and results). Defaults to the plugin setting.",
+              },
+              agent_policy: AGENT_POLICY_PROPERTY,
             },
             required: ["name", "description"],
           },
@@ -80,8 +593,18 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
             const result = await manager.createProject(
               args.name as string,
               args.description as string,
-              args.tech_stack as string | undefined
+              args.tech_stack as string | undefined,
+              {
+                budgetUsd: args.budget_usd as number | undefined,
+                verbosity: args.verbosity as NotificationVerbosity | undefined,
+                agentPolicy: policyUpdateFromArgs(args.agent_policy),
+              }
             )
+            if (result.status === "queued") {
+              return ok(
+                `Project "${args.name}" created (ID: ${result.projectId}) and queued — all build slots are busy. It will start automatically when a slot frees up.`
+              )
+            }
             return ok(
               `Project "${args.name}" created (ID: ${result.projectId}). Status: ${result.status}.\nPearBot is now working. You'll receive progress updates and any questions in chat.`
             )
@@ -96,7 +619,8 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
         definition: {
           name: "pearbot_reply",
           description:
-            "Send a reply to a PearBot agent that is waiting for input. Use this when a builder asks a clarifying question.",
+            "Send a reply to a PearBot agent that is waiting for input. Use this when a builder asks a clarifying question. " +
+            "For a structured question, pass its question_id and a choice (option text or number); a message alone answers every pending question.",
           inputSchema: {
             type: "object" as const,
             properties: {
@@ -106,20 +630,37 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
               },
               message: {
                 type: "string",
-                description: "Your response to the builder's question",
+                description: "Your response to the builder's question (with a choice: an optional note)",
+              },
+              question_id: {
+                type: "string",
+                description: "The question being answered (optional when only one is pending)",
+              },
+              choice: {
+                type: "string",
+                description: "One of the question's options, by text or 1-based number",
               },
             },
-            required: ["project_id", "message"],
+            required: ["project_id"],
           },
         },
         handler: async (args) => {
           if (!manager) return err("Plugin not active")
           try {
-            const result = await manager.sendToProject(
-              args.project_id as string,
-              args.message as string
-            )
-            return ok(`Reply sent to project ${args.project_id}. Status: ${result.status}`)
+            const projectId = args.project_id as string
+            if (args.question_id !== undefined || args.choice !== undefined) {
+              const result = await manager.answerQuestion(projectId, args.question_id as string | undefined, {
+                choice: args.choice as string | undefined,
+                note: args.message as string | undefined,
+              })
+              if (result.pendingQuestions.length > 0) {
+                return ok(`Answer recorded for project ${projectId}. Still waiting on: ${result.pendingQuestions.join(", ")}`)
+              }
+              return ok(`Answers sent to project ${projectId}. Status: ${result.status}`)
+            }
+            if (!args.message) return err("message is required unless question_id or choice is given")
+            const result = await manager.sendToProject(projectId, args.message as string)
+            return ok(`Reply sent to project ${projectId}. Status: ${result.status}`)
           } catch (e) {
             return err(e instanceof Error ? e.message : String(e))
           }
@@ -152,17 +693,33 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
 
             const lines: string[] = []
             for (const p of projects) {
-              lines.push(`${p.name} (${p.id})`)
-              lines.push(`  Status: ${p.status}`)
-              if (p.techStack) lines.push(`  Tech: ${p.techStack}`)
-              if (p.servingPort) lines.push(`  Serving: http://localhost:${p.servingPort}`)
+              const section: string[] = []
+              section.push(`${p.name} (${p.id})`)
+              section.push(`  Status: ${p.status}`)
+              if (p.queuePosition) section.push(`  Queue position: ${p.queuePosition}`)
+              if (p.currentActivity) section.push(`  Now: ${p.currentActivity}`)
+              if (p.usage.turns > 0 || p.budgetUsd) section.push(`  Usage: ${formatUsage(p.usage, p.budgetUsd)}`)
+              if (p.verification) section.push(`  Verification: ${formatVerification(p.verification)}`)
+              if (p.techStack) section.push(`  Tech: ${p.techStack}`)
+              const policy = describePolicy(p.agentPolicy)
+              if (policy) section.push(`  Agent policy: ${policy}`)
+              const env = manager.listProjectEnv(p.id)
+              if (env.length > 0) {
+                section.push(`  Env: ${env.map((v) => v.name).join(", ")} (${env.filter((v) => v.secret).length} secret)`)
+              }
+              if (p.sessionId) section.push(`  Session: ${p.sessionId}`)
+              if (p.servingPort) section.push(`  Serving: ${manager.serveUrl(p.id, p.servingPort)}`)
               if (p.lastNotification) {
-                lines.push(
+                section.push(
                   `  Last update [${p.lastNotification.status}${p.lastNotification.phase ? "/" + p.lastNotification.phase : ""}]: ${p.lastNotification.content.substring(0, 200)}`
                 )
               }
-              lines.push(`  Created: ${p.createdAt}`)
-              lines.push("")
+              for (const q of manager.getQuestions(p.id).filter((q) => q.status === "pending")) {
+                section.push(`  Question ${q.id}: ${q.question.substring(0, 200)}${formatQuestionChoices(q)}`)
+              }
+              section.push(`  Created: ${p.createdAt}`)
+              section.push("")
+              lines.push(manager.redact(p.id, section.join("\n")))
             }
 
             return ok(lines.join("\n"))
@@ -196,7 +753,7 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
         definition: {
           name: "pearbot_open",
           description:
-            "Resume or continue work on an existing project. Spawns a fresh agent that reads existing files for context, then performs the given task.",
+            "Resume or continue work on an existing project. Resumes the project's previous agent session (keeping its full context) when one exists, otherwise spawns a fresh agent that reads existing files first. Then performs the given task.",
           inputSchema: {
             type: "object" as const,
             properties: {
@@ -209,6 +766,11 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
                 description:
                   "What to do with the project (e.g. 'add dark mode', 'fix the login bug', 'add unit tests')",
               },
+              fresh: {
+                type: "boolean",
+                description: "Start a clean agent session instead of resuming the previous one",
+              },
+              agent_policy: AGENT_POLICY_PROPERTY,
             },
             required: ["project_id", "task"],
           },
@@ -218,10 +780,17 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
           try {
             const result = await manager.openProject(
               args.project_id as string,
-              args.task as string
+              args.task as string,
+              { fresh: args.fresh === true, agentPolicy: policyUpdateFromArgs(args.agent_policy) }
             )
+            if (result.status === "queued") {
+              return ok(
+                `Task for project ${args.project_id} queued — all build slots are busy. It will start automatically when a slot frees up.`
+              )
+            }
             return ok(
-              `Opened project ${args.project_id} with task: "${(args.task as string).substring(0, 100)}". Status: ${result.status}`
+              `Opened project ${args.project_id} with task: "${(args.task as string).substring(0, 100)}". Status: ${result.status}` +
+                (result.resumed ? " (resuming previous session)" : " (fresh session)")
             )
           } catch (e) {
             return err(e instanceof Error ? e.message : String(e))
@@ -261,6 +830,42 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
         },
       },
 
+      // ── pearbot_extend ────────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_extend",
+          description:
+            "Give a running build agent more time before stall detection stops it. Use after a 'stalled' warning if the build is still worth waiting for.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID",
+              },
+              minutes: {
+                type: "number",
+                description: "Extra minutes to grant (default 30)",
+              },
+            },
+            required: ["project_id"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const minutes = args.minutes !== undefined ? Number(args.minutes) : 30
+            const result = manager.extendProject(args.project_id as string, minutes)
+            const lines = [`Granted project ${args.project_id} ${minutes} more minutes.`]
+            if (result.idleDeadline) lines.push(`Idle deadline: ${result.idleDeadline}`)
+            if (result.runDeadline) lines.push(`Run deadline: ${result.runDeadline}`)
+            return ok(lines.join("\n"))
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
       // ── pearbot_serve ─────────────────────────────────────
       {
         definition: {
@@ -299,6 +904,42 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
         },
       },
 
+      // ── pearbot_logs ──────────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_logs",
+          description:
+            "Show the most recent dev server output (stdout and stderr) for a project.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID",
+              },
+              lines: {
+                type: "number",
+                description: "Number of lines to return (default 100)",
+              },
+            },
+            required: ["project_id"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const lines = manager.getServerLogs(
+              args.project_id as string,
+              args.lines !== undefined ? Number(args.lines) : undefined
+            )
+            if (lines.length === 0) return ok(`No dev server output for project ${args.project_id}.`)
+            return ok(lines.join("\n"))
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
       // ── pearbot_files ─────────────────────────────────────
       {
         definition: {
@@ -327,23 +968,767 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
           }
         },
       },
-    ],
 
-    scheduled: [
+      // ── pearbot_read_file ─────────────────────────────────
       {
-        name: "pearbot-reminder",
-        intervalMs: 10 * 60 * 1000,
-        handler: async () => {
-          // The manager handles reminders internally via its own interval.
+        definition: {
+          name: "pearbot_read_file",
+          description:
+            "Read the contents of a file in a project directory, optionally limited to a line or byte range. Use pearbot_files first to find paths. Binary files report their type and size only.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID to read from",
+              },
+              path: {
+                type: "string",
+                description: "File path relative to the project directory (as listed by pearbot_files)",
+              },
+              start_line: {
+                type: "number",
+                description: "First line to return (1-based)",
+              },
+              end_line: {
+                type: "number",
+                description: "Last line to return (inclusive)",
+              },
+              offset: {
+                type: "number",
+                description: "Byte offset to start reading at (ignored when a line range is given)",
+              },
+              length: {
+                type: "number",
+                description: "Number of bytes to read from offset",
+              },
+            },
+            required: ["project_id", "path"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const file = await manager.readProjectFile(args.project_id as string, args.path as string, {
+              startLine: args.start_line as number | undefined,
+              endLine: args.end_line as number | undefined,
+              offset: args.offset as number | undefined,
+              length: args.length as number | undefined,
+            })
+            if (file.binary) {
+              return ok(`${file.path} is a binary file (${file.mimeType}, ${file.size} bytes).`)
+            }
+
+            const range = file.lineRange
+              ? `lines ${file.lineRange.start}-${file.lineRange.end} of ${file.lineRange.total}`
+              : file.byteRange
+                ? `bytes ${file.byteRange.start}-${file.byteRange.end} of ${file.size}`
+                : `${file.size} bytes`
+            const lines = [`${file.path} (${file.mimeType}, ${range})`, "", file.content]
+            if (file.truncated) lines.push("", "… [truncated — request a smaller range to read further]")
+            return ok(lines.join("\n"))
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
         },
       },
-    ],
-  }
-}
 
-export async function deactivate(): Promise<void> {
-  if (manager) {
-    await manager.stopAll()
-    manager = null
+      // ── pearbot_export ────────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_export",
+          description:
+            "Package a project as a zip or tar.gz archive (without node_modules, build output, etc.) including a metadata manifest. Returns the archive's location on the server and the download route.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID to export",
+              },
+              format: {
+                type: "string",
+                enum: ["zip", "tar.gz"],
+                description: "Archive format (default zip)",
+              },
+            },
+            required: ["project_id"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          const format = (args.format as string | undefined) || "zip"
+          if (format !== "zip" && format !== "tar.gz") return err("format must be zip or tar.gz")
+          try {
+            const result = await manager.exportProjectToFile(args.project_id as string, format)
+            return ok(
+              `Exported project ${args.project_id} (${(result.size / 1024).toFixed(1)} KB).\nFile: ${result.path}\nDownload: GET /projects/${args.project_id}/archive?format=${format}`
+            )
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
+      // ── pearbot_activity ──────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_activity",
+          description:
+            "Show what a builder agent has been doing: its most recent actions (files written or edited, commands run with exit status, searches). Use this to answer 'what is it doing right now?'.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID to show activity for",
+              },
+              limit: {
+                type: "number",
+                description: "Number of recent actions to return (default 20, max 200)",
+              },
+            },
+            required: ["project_id"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const projectId = args.project_id as string
+            const activity = manager.getActivity(projectId, args.limit as number | undefined)
+            const [project] = manager.getStatus(projectId)
+            if (activity.length === 0) return ok("No agent activity recorded yet.")
+
+            const marks = { running: "…", ok: "✓", error: "✗" }
+            const lines = activity.map((a) => `${a.startedAt.substring(11, 19)} ${marks[a.status]} ${a.summary}`)
+            if (project?.currentActivity) lines.unshift(`Now: ${project.currentActivity}`, "")
+            return ok(lines.join("\n"))
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
+      // ── pearbot_transcript ────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_transcript",
+          description:
+            "Read the persisted agent transcript for a project: assistant text, tool calls and results, run results and stderr. Use this to see what the builder actually did, e.g. after a failed build.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID to read the transcript for",
+              },
+              cursor: {
+                type: "number",
+                description: "Return entries after this sequence number (from a previous call's next cursor)",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of entries to return (default 100, max 500)",
+              },
+              tail: {
+                type: "boolean",
+                description: "Return the most recent entries instead of starting from the beginning (ignored when cursor is set)",
+              },
+            },
+            required: ["project_id"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const result = manager.getTranscript(args.project_id as string, {
+              after: args.cursor as number | undefined,
+              limit: args.limit as number | undefined,
+              tail: args.tail as boolean | undefined,
+            })
+            if (result.entries.length === 0) return ok("No transcript entries.")
+
+            const lines = result.entries.map((e) => {
+              const text = e.kind === "tool_use"
+                ? `${e.content} ${JSON.stringify(e.data?.input ?? {}).substring(0, 300)}`
+                : e.content.substring(0, 1000)
+              return `#${e.seq} [${e.kind}] ${text}`
+            })
+            if (result.nextCursor !== null) {
+              lines.push("", `More entries available. Next cursor: ${result.nextCursor}`)
+            }
+            return ok(lines.join("\n"))
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
+      // ── pearbot_delete ────────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_delete",
+          description:
+            "Permanently delete a project: stops its agent and dev server, removes its files and all stored history. Use dry_run first to see what would be removed.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID to delete",
+              },
+              dry_run: {
+                type: "boolean",
+                description: "Only report what would be removed",
+              },
+            },
+            required: ["project_id"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const dryRun = args.dry_run === true
+            const plan = await manager.deleteProject(args.project_id as string, { dryRun })
+            return ok(formatRemovalPlan(plan, dryRun))
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
+      // ── pearbot_archive ───────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_archive",
+          description:
+            "Archive a project: stops its agent and dev server, compresses its files (with checkpoint history) to a tar.gz and frees the directory. The project stays listed as 'archived'.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID to archive",
+              },
+              dry_run: {
+                type: "boolean",
+                description: "Only report what would be archived",
+              },
+            },
+            required: ["project_id"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const dryRun = args.dry_run === true
+            const plan = await manager.archiveProject(args.project_id as string, { dryRun })
+            return ok(formatRemovalPlan(plan, dryRun))
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
+      // ── pearbot_retention ─────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_retention",
+          description:
+            "Show (or apply) what the retention policy would archive or delete, based on the autoArchiveAfterDays and autoDeleteFailedAfterDays settings.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              apply: {
+                type: "boolean",
+                description: "Actually archive/delete instead of only reporting (default false)",
+              },
+            },
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const report = await manager.applyRetention(args.apply !== true)
+            if (report.actions.length === 0) return ok("Retention policy: nothing to archive or delete.")
+            return ok(report.actions.map((a) => formatRemovalPlan(a, report.dryRun)).join("\n\n"))
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
+      // ── pearbot_budget ────────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_budget",
+          description:
+            "Show token usage and cost for a project (per run), and optionally set its spend limit. Without a project, shows this month's spend across all projects.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID (omit for the global monthly spend)",
+              },
+              budget_usd: {
+                type: "number",
+                description: "New spend limit in USD for the project; 0 removes the limit",
+              },
+            },
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            if (!args.project_id) {
+              const spend = manager.getGlobalSpend()
+              return ok(
+                `This month: $${spend.monthlySpendUsd.toFixed(2)}` +
+                  (spend.monthlyBudgetUsd ? ` of $${spend.monthlyBudgetUsd.toFixed(2)} global budget` : " (no global budget)")
+              )
+            }
+
+            const projectId = args.project_id as string
+            if (typeof args.budget_usd === "number") manager.setBudget(projectId, args.budget_usd)
+
+            const [project] = manager.getStatus(projectId)
+            if (!project) return ok("Project not found.")
+            const lines = [`${project.name} (${project.id})`, `  Total: ${formatUsage(project.usage, project.budgetUsd)}`]
+            for (const run of manager.getRuns(projectId)) {
+              lines.push(`  Run ${run.runId} (${run.startedAt}${run.endedAt ? "" : ", running"}): ${formatUsage(run, null)}`)
+            }
+            return ok(lines.join("\n"))
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
+      // ── pearbot_verbosity ─────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_verbosity",
+          description:
+            "Set how much of a project's progress is posted in chat. Questions, success and failure are always posted immediately.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID",
+              },
+              verbosity: {
+                type: "string",
+                enum: ["all", "milestones", "final-only"],
+                description: "all: every update (rate limited, extras go into a digest); milestones: phase changes only; final-only: no progress updates",
+              },
+            },
+            required: ["project_id", "verbosity"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const { verbosity } = manager.setVerbosity(args.project_id as string, args.verbosity as NotificationVerbosity)
+            return ok(`Project ${args.project_id} verbosity set to ${verbosity}.`)
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
+      // ── pearbot_env_set ───────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_env_set",
+          description:
+            "Set an environment variable (e.g. an API key) for a project. It is stored encrypted and passed to the project's builder agent, dev server and verification from their next start. Secret values are never shown again and are redacted from transcripts, logs and status.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID",
+              },
+              name: {
+                type: "string",
+                description: "Variable name, e.g. STRIPE_API_KEY",
+              },
+              value: {
+                type: "string",
+                description: "The value",
+              },
+              secret: {
+                type: "boolean",
+                description: "Treat the value as a secret (default true). Use false for plain config like NODE_ENV.",
+              },
+            },
+            required: ["project_id", "name", "value"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const variable = manager.setProjectEnv(args.project_id as string, args.name as string, args.value as string, {
+              secret: args.secret !== false,
+            })
+            return ok(
+              `${variable.name} set for project ${args.project_id}${variable.secret ? " (secret)" : ` = ${variable.value}`}. ` +
+                "It takes effect the next time the agent or dev server starts."
+            )
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
+      // ── pearbot_env_list ──────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_env_list",
+          description: "List a project's environment variables. Secret values are masked.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID",
+              },
+            },
+            required: ["project_id"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const variables = manager.listProjectEnv(args.project_id as string)
+            if (variables.length === 0) return ok(`Project ${args.project_id} has no environment variables.`)
+            const lines = variables.map((v) => `${v.name}=${v.secret ? "******** (secret)" : v.value}  (updated ${v.updatedAt})`)
+            return ok(`Environment for project ${args.project_id}:\n${lines.join("\n")}`)
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
+      // ── pearbot_env_unset ─────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_env_unset",
+          description: "Remove an environment variable from a project.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID",
+              },
+              name: {
+                type: "string",
+                description: "Variable name",
+              },
+            },
+            required: ["project_id", "name"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const { removed } = manager.unsetProjectEnv(args.project_id as string, args.name as string)
+            return ok(
+              removed
+                ? `${args.name} removed from project ${args.project_id}. It takes effect the next time the agent or dev server starts.`
+                : `Project ${args.project_id} has no variable ${args.name}.`
+            )
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
+      // ── pearbot_history ───────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_history",
+          description:
+            "List the git checkpoints PearBot recorded for a project (one per progress phase and agent exit), newest first.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID to show history for",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of checkpoints to return (default 50)",
+              },
+            },
+            required: ["project_id"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const checkpoints = await manager.getHistory(
+              args.project_id as string,
+              args.limit as number | undefined
+            )
+            if (checkpoints.length === 0) return ok("No checkpoints yet.")
+            const lines = checkpoints.map((c) => `${c.shortHash}  ${c.createdAt}  ${c.message}`)
+            return ok(`Checkpoints (${checkpoints.length}):\n${lines.join("\n")}`)
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
+      // ── pearbot_diff ──────────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_diff",
+          description:
+            "Show what changed in a project between checkpoints. With no refs, shows the changes made in the latest checkpoint.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID to diff",
+              },
+              from: {
+                type: "string",
+                description: "Checkpoint hash (or HEAD~N) to diff from. Omit to show a single checkpoint.",
+              },
+              to: {
+                type: "string",
+                description: "Checkpoint hash (or HEAD~N) to diff to (default: latest)",
+              },
+              stat: {
+                type: "boolean",
+                description: "Only show a per-file summary of changes",
+              },
+            },
+            required: ["project_id"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const result = await manager.getDiff(args.project_id as string, {
+              from: args.from as string | undefined,
+              to: args.to as string | undefined,
+              stat: args.stat === true,
+            })
+            if (!result.diff.trim()) return ok("No changes.")
+            return ok(result.diff + (result.truncated ? "\n… [diff truncated]" : ""))
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
+      // ── pearbot_rollback ──────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_rollback",
+          description:
+            "Restore a project's files to an earlier checkpoint. The current state is checkpointed first, so a rollback can itself be undone. The agent must not be running.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              project_id: {
+                type: "string",
+                description: "The project ID to roll back",
+              },
+              checkpoint: {
+                type: "string",
+                description: "Checkpoint hash (from pearbot_history) or HEAD~N to restore",
+              },
+            },
+            required: ["project_id", "checkpoint"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const result = await manager.rollbackProject(
+              args.project_id as string,
+              args.checkpoint as string
+            )
+            return ok(
+              result.checkpoint
+                ? `Project ${args.project_id} rolled back to ${args.checkpoint} (new checkpoint ${result.checkpoint.substring(0, 7)}).`
+                : `Project ${args.project_id} already matches ${args.checkpoint}.`
+            )
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
+      // ── pearbot_queue ─────────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_queue",
+          description:
+            "Show, reorder or cancel builds waiting in the PearBot build queue. Builds are queued when all concurrent build slots are busy and start automatically in order.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              action: {
+                type: "string",
+                enum: ["list", "move", "cancel"],
+                description: "'list' shows the queue, 'move' changes a build's position, 'cancel' removes it from the queue",
+              },
+              project_id: {
+                type: "string",
+                description: "The queued project ID (required for 'move' and 'cancel')",
+              },
+              position: {
+                type: "number",
+                description: "New 1-based queue position (required for 'move')",
+              },
+            },
+            required: ["action"],
+          },
+        },
+        handler: async (args) => {
+          if (!manager) return err("Plugin not active")
+          try {
+            const action = args.action as string
+            const projectId = args.project_id as string | undefined
+
+            if (action === "list") {
+              const queue = manager.getQueue()
+              if (queue.length === 0) return ok("Build queue is empty.")
+              const lines = queue.map(
+                (q) => `${q.position}. ${q.name} (${q.projectId}) — ${q.kind}, queued ${q.enqueuedAt}`
+              )
+              return ok(`Build queue (${queue.length}):\n${lines.join("\n")}`)
+            }
+
+            if (!projectId) return err(`project_id is required for '${action}'`)
+
+            if (action === "move") {
+              if (typeof args.position !== "number") return err("position is required for 'move'")
+              const result = manager.moveQueued(projectId, args.position)
+              return ok(`Project ${projectId} moved to queue position ${result.position}.`)
+            }
+
+            if (action === "cancel") {
+              const result = manager.cancelQueued(projectId)
+              return ok(
+                result.cancelled
+                  ? `Queued build for project ${projectId} cancelled.`
+                  : `Project ${projectId} is not queued.`
+              )
+            }
+
+            return err(`Unknown action '${action}'`)
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+
+      // ── pearbot_token ─────────────────────────────────────
+      {
+        definition: {
+          name: "pearbot_token",
+          description:
+            "Mint, list or revoke API tokens for the PearBot REST API. Scopes: read (view projects, files, logs), build (create, reply, open, stop, roll back), serve (start/stop dev servers), admin (everything, including delete, archive, retention, webhook deliveries and the audit log). A minted token is shown only once.",
+          inputSchema: {
+            type: "object" as const,
+            properties: {
+              action: {
+                type: "string",
+                enum: ["mint", "list", "revoke"],
+                description: "'mint' creates a token, 'list' shows existing tokens, 'revoke' disables one",
+              },
+              name: {
+                type: "string",
+                description: "What the token is for, e.g. 'CI dashboard' (required for 'mint')",
+              },
+              scopes: {
+                type: "array",
+                items: { type: "string", enum: TOKEN_SCOPES },
+                description: "Scopes to grant (required for 'mint')",
+              },
+              token_id: {
+                type: "string",
+                description: "The token ID (required for 'revoke')",
+              },
+            },
+            required: ["action"],
+          },
+        },
+        handler: async (args) => {
+          if (!tokens) return err("Plugin not active")
+          try {
+            const action = args.action as string
+
+            if (action === "mint") {
+              if (typeof args.name !== "string") return err("name is required for 'mint'")
+              const scopes = Array.isArray(args.scopes) ? (args.scopes as string[]) : []
+              const { token, record } = tokens.mint(args.name, scopes)
+              return ok(
+                `Token ${record.id} ("${record.name}") minted with scopes ${record.scopes.join(", ")}:\n\n${token}\n\n` +
+                  "Send it as 'Authorization: Bearer <token>'. It will not be shown again."
+              )
+            }
+
+            if (action === "list") {
+              const all = tokens.list()
+              if (all.length === 0) return ok("No API tokens. Mint one with action 'mint'.")
+              const lines = all.map(
+                (entry) =>
+                  `- ${entry.id} "${entry.name}" [${entry.scopes.join(", ")}] created ${entry.createdAt}` +
+                  `, last used ${entry.lastUsedAt ?? "never"}${entry.revokedAt ? `, REVOKED ${entry.revokedAt}` : ""}`
+              )
+              return ok(`API tokens (${all.length}):\n${lines.join("\n")}`)
+            }
+
+            if (action === "revoke") {
+              if (typeof args.token_id !== "string") return err("token_id is required for 'revoke'")
+              const record = tokens.revoke(args.token_id)
+              return ok(`Token ${record.id} ("${record.name}") revoked.`)
+            }
+
+            return err(`Unknown action '${action}'`)
+          } catch (e) {
+            return err(e instanceof Error ? e.message : String(e))
+          }
+        },
+      },
+    ],
+
+    webhooks: triggers.webhooks(),
+
+    scheduled: [
+      {
+        name: "pearbot-reminder",
+        intervalMs: 10 * 60 * 1000,
+        handler: async () => {
+          // The manager handles reminders internally via its own interval.
+        },
+      },
+    ],
+  }
+}
+
+export async function deactivate(): Promise<void> {
+  if (manager) {
+    await manager.stopAll()
+    manager = null
+  }
+  triggers?.stop()
+  triggers = null
+  tokens = null
+  // After the manager, so the server-stopped events it emits are still recorded
+  if (webhooks) {
+    await webhooks.stop()
+    webhooks = null
   }
 }
@@ -1,40 +1,222 @@
 import { spawn, type Subprocess } from "bun"
 import { EventEmitter } from "events"
-import { join, resolve } from "path"
-import { mkdirSync, existsSync, readdirSync, statSync, readFileSync } from "fs"
+import { join, resolve, sep } from "path"
+import {
+  mkdirSync,
+  existsSync,
+  readdirSync,
+  statSync,
+  readFileSync,
+  lstatSync,
+  rmSync,
+  createWriteStream,
+  type WriteStream,
+} from "fs"
 import { createServer } from "net"
-import type { PluginContext, ProjectMetadata, ProjectNotification, ProjectStatus } from "./types"
+import { describeResult, describeToolUse, parseExitCode, type ToolDescription } from "./activity"
+import { ARCHIVE_CONTENT_TYPES, collectEntries, createArchiveStream, type ArchiveFormat } from "./archive"
+import { readProjectFile, resolveProjectPath, type ReadFileOptions } from "./files"
+import { commitAll, diffCheckpoints, ensureRepo, listCheckpoints, restoreCheckpoint, type CheckpointRepo } from "./checkpoints"
+import { previewPath } from "./preview"
+import { detectVerificationSteps, runVerificationStep } from "./verify"
+import { NotificationParser, PROTOCOL_PLACEHOLDER, protocolPrompt } from "./protocol"
+import { ProgressThrottle, type DigestEntry } from "./throttle"
+import { applyPolicyUpdate, policyFromSettings } from "./policy"
+import { Sandbox } from "./sandbox"
+import { ProjectEnvStore } from "./secrets"
+import { BudgetError, ConflictError, NotFoundError, UnavailableError, ValidationError } from "./errors"
+import { ClaudeCliRunner, contentBlocks, type AgentHandle, type AgentMessage, type AgentRunner } from "./runner"
+import type {
+  ActivityEntry,
+  AgentPolicy,
+  AgentPolicyUpdate,
+  Checkpoint,
+  ClarifyQuestion,
+  NotificationVerbosity,
+  PearBotEvent,
+  PearBotEventType,
+  PluginContext,
+  ProjectEnvVar,
+  ProjectFileContent,
+  ProjectMetadata,
+  ProjectNotification,
+  ProjectStatus,
+  QueuedBuild,
+  RemovalPlan,
+  RetentionReport,
+  RunUsage,
+  SessionRecord,
+  TranscriptEntry,
+  TranscriptEntryKind,
+  UsageTotals,
+  VerificationRecord,
+} from "./types"
+
+type AgentRun = {
+  mode: SessionRecord["mode"]
+  resumedFrom: string | null
+  sessionId: string | null
+  fallbackPrompt: string | null
+  runId: number | null
+  startedAt: number
+  usage: UsageTotals
+  /** Last cumulative total_cost_usd reported by this process */
+  lastCostTotal: number
+  /** Last stdout message or user input, for idle detection */
+  lastActivityAt: number
+  /** When the current task or reply was sent; bounds the run timeout */
+  workStartedAt: number
+  /** Extra time granted through pearbot_extend */
+  extensionMs: number
+  stallWarned: boolean
+  /** Recent stderr lines, to explain a sandbox kill */
+  stderrTail: string[]
+}
 
-type BunSubprocess = Subprocess<"pipe", "pipe", "pipe">
+export type PluginDb = {
+  run: (sql: string, ...params: unknown[]) => void
+  query: (sql: string) => {
+    all: (...params: unknown[]) => Record<string, unknown>[]
+    get: (...params: unknown[]) => Record<string, unknown> | null
+  }
+}
 
 const WAITING_REMINDER_INTERVAL_MS = 10 * 60 * 1000
-const COMPLETED_CLEANUP_MS = 30 * 60 * 1000
-const STALLED_AGENT_TIMEOUT_MS = 60 * 60 * 1000
+const RETENTION_CHECK_INTERVAL_MS = 30 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+const STALL_WARNING_LEAD_MS = 5 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+const VERBOSITY_LEVELS: NotificationVerbosity[] = ["all", "milestones", "final-only"]
+const TRANSCRIPT_MAX_ENTRY_CHARS = 20_000
+const TRANSCRIPT_DEFAULT_PAGE = 100
+const TRANSCRIPT_MAX_PAGE = 500
+const EVENT_HISTORY_SIZE = 500
+const DIFF_MAX_CHARS = 100_000
+const ACTIVITY_DEFAULT_LIMIT = 20
+const ACTIVITY_MAX_LIMIT = 200
+const SERVER_LOG_RING_SIZE = 1000
+const VERIFICATION_FEEDBACK_CHARS = 3000
+const SERVER_LOG_ERROR_LINES = 20
+const STDERR_TAIL_LINES = 50
+const READY_POLL_INTERVAL_MS = 500
+const READY_REQUEST_TIMEOUT_MS = 2000
+
+/** Directories never listed, checkpointed or exported. */
+const SKIP_DIRS = new Set(["node_modules", ".git", ".next", "dist", "build", "__pycache__", ".venv", "venv"])
+/** Archival keeps a project's own git history but still drops regenerable output. */
+const ARCHIVE_SKIP_DIRS = new Set([...SKIP_DIRS].filter((d) => d !== ".git"))
+
+function emptyUsage(): UsageTotals {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    costUsd: 0,
+    turns: 0,
+    wallClockMs: 0,
+  }
+}
+
+/** " [coding, 40%, ~10m left]" for a progress notification, or "" */
+function progressTags(notification: ProjectNotification): string {
+  const tags = [
+    notification.phase,
+    notification.progress !== undefined ? `${notification.progress}%` : undefined,
+    notification.eta ? `~${notification.eta} left` : undefined,
+  ].filter(Boolean)
+  return tags.length ? ` [${tags.join(", ")}]` : ""
+}
+
+/** The plugin DB's file and its journals, when it lives on disk. */
+function databaseFiles(db: unknown): string[] {
+  const filename = (db as { filename?: unknown }).filename
+  if (typeof filename !== "string" || !filename || filename === ":memory:") return []
+  return [filename, `${filename}-wal`, `${filename}-shm`, `${filename}-journal`]
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/** A token or turn count reported by the agent, with anything else as 0. */
+function count(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0
+}
 
 /**
  * PearBot — Manages project builder Claude Code subprocesses.
- * Follows the BrowserbaseProcessManager pattern — spawns Claude Code CLI
- * subprocesses that communicate via NDJSON stdin/stdout.
+ * Follows the BrowserbaseProcessManager pattern — agents are started through
+ * an AgentRunner (the Claude Code CLI by default) and speak stream-json.
  */
 export class PearBotManager extends EventEmitter {
   private projects: Map<string, ProjectMetadata> = new Map()
-  private agentProcesses: Map<string, BunSubprocess> = new Map()
+  private agents: Map<string, AgentHandle> = new Map()
   private serverProcesses: Map<string, Subprocess> = new Map()
   private allocatedPorts: Set<number> = new Set()
+  private transcriptSeq: Map<string, number> = new Map()
+  private buildQueue: QueuedBuild[] = []
+  private agentRuns: Map<string, AgentRun> = new Map()
+  private checkpointChains: Map<string, Promise<unknown>> = new Map()
+  /** In-flight tool calls, keyed by `${projectId}:${toolUseId}` */
+  private pendingTools: Map<string, ToolDescription> = new Map()
+  private serverLogs: Map<string, string[]> = new Map()
+  /** Success notifications held back until PearBot's own verification passes */
+  private pendingSuccess: Map<string, ProjectNotification> = new Map()
+  private notificationParsers: Map<string, NotificationParser> = new Map()
+  private verificationProcs: Map<string, { kill(): void }> = new Map()
+  /** Failed verifications handed back to the agent since the last task */
+  private verificationRetries: Map<string, number> = new Map()
+  /** Deadline timers for pending questions, keyed by `${projectId}:${questionId}` */
+  private questionTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()
+  private progressThrottle: ProgressThrottle
+  /** Last phase reported by each project, for `milestones` verbosity */
+  private lastPhases: Map<string, string> = new Map()
+  /** Public base path each dev server was started with, if it was told one */
+  private serverBasePaths: Map<string, string> = new Map()
+  private knownStatus: Map<string, ProjectStatus> = new Map()
+  private eventHistory: PearBotEvent[] = []
+  private eventSeq = 0
   private ctx: PluginContext
+  private runner: AgentRunner
+  private sandbox: Sandbox
+  private projectEnv: ProjectEnvStore
   private projectsDir: string
+  /** PearBot's own files (the environment key), kept away from projects */
+  private dataDir: string
+  private exportsDir: string
   private portRangeStart: number
   private portRangeEnd: number
   private maxConcurrentBuilds: number
   private publicHost: string
+  /** Where previews are published: `previewBaseUrl`, else `publicBaseUrl` */
+  private previewBaseUrl: string
+  private serveReadyTimeoutMs: number
+  private verifyOnSuccess: boolean
+  private agentIdleTimeoutMs: number
+  private agentRunTimeoutMs: number
+  private stallCheckIntervalMs: number
+  private verifyRetryAttempts: number
+  private verifyStepTimeoutMs: number
+  private clarifyDefaultDeadlineMs: number
+  private defaultVerbosity: NotificationVerbosity
+  private defaultAgentPolicy: AgentPolicy
+  private progressDigestIntervalMs: number
+  private autoArchiveAfterDays: number
+  private autoDeleteFailedAfterDays: number
+  private exportRetentionHours: number
+  private defaultProjectBudgetUsd: number
+  private globalMonthlyBudgetUsd: number
   private reminderInterval: ReturnType<typeof setInterval> | null = null
   private cleanupInterval: ReturnType<typeof setInterval> | null = null
   private stalledCheckInterval: ReturnType<typeof setInterval> | null = null
+  private digestInterval: ReturnType<typeof setInterval> | null = null
   private claudeMdPath: string
 
-  constructor(ctx: PluginContext) {
+  constructor(ctx: PluginContext, runner: AgentRunner = new ClaudeCliRunner()) {
     super()
     this.ctx = ctx
+    this.runner = runner
     this.projectsDir = resolve(
       process.cwd(),
       ctx.getSetting<string>("projectsDir") || "projects"
@@ -43,6 +225,33 @@ export class PearBotManager extends EventEmitter {
     this.portRangeEnd = ctx.getSetting<number>("portRangeEnd") || 4999
     this.maxConcurrentBuilds = ctx.getSetting<number>("maxConcurrentBuilds") || 3
     this.publicHost = ctx.getSetting<string>("publicHost") || ""
+    this.previewBaseUrl = (ctx.getSetting<string>("previewBaseUrl") || ctx.getSetting<string>("publicBaseUrl") || "")
+      .replace(/\/+$/, "")
+    this.serveReadyTimeoutMs = (ctx.getSetting<number>("serveReadyTimeoutSeconds") || 60) * 1000
+    this.verifyOnSuccess = ctx.getSetting<boolean>("verifyOnSuccess") !== false
+    this.agentIdleTimeoutMs = (ctx.getSetting<number>("agentIdleTimeoutMinutes") ?? 15) * MINUTE_MS
+    this.agentRunTimeoutMs = (ctx.getSetting<number>("agentRunTimeoutMinutes") ?? 120) * MINUTE_MS
+    this.stallCheckIntervalMs = (ctx.getSetting<number>("stallCheckIntervalSeconds") || 60) * 1000
+    this.verifyRetryAttempts = ctx.getSetting<number>("verifyRetryAttempts") || 0
+    this.verifyStepTimeoutMs = (ctx.getSetting<number>("verifyStepTimeoutSeconds") || 600) * 1000
+    this.clarifyDefaultDeadlineMs = (ctx.getSetting<number>("clarifyDefaultDeadlineMinutes") ?? 30) * MINUTE_MS
+    const verbosity = ctx.getSetting<string>("notificationVerbosity") as NotificationVerbosity
+    this.defaultVerbosity = VERBOSITY_LEVELS.includes(verbosity) ? verbosity : "all"
+    this.defaultAgentPolicy = policyFromSettings(ctx)
+    this.dataDir = resolve(process.cwd(), ctx.getSetting<string>("dataDir") || "pearbot-data")
+    this.exportsDir = join(this.projectsDir, "exports")
+    this.sandbox = Sandbox.fromSettings(ctx, [this.dataDir, this.projectsDir, ...databaseFiles(ctx.getDb())])
+    this.projectEnv = new ProjectEnvStore(ctx, join(this.dataDir, "env.key"))
+    this.progressThrottle = new ProgressThrottle({
+      minIntervalMs: (ctx.getSetting<number>("progressMinIntervalSeconds") ?? 60) * 1000,
+      maxPerMinute: ctx.getSetting<number>("progressMaxPerMinute") ?? 6,
+    })
+    this.progressDigestIntervalMs = (ctx.getSetting<number>("progressDigestIntervalSeconds") || 120) * 1000
+    this.autoArchiveAfterDays = ctx.getSetting<number>("autoArchiveAfterDays") || 0
+    this.autoDeleteFailedAfterDays = ctx.getSetting<number>("autoDeleteFailedAfterDays") || 0
+    this.exportRetentionHours = ctx.getSetting<number>("exportRetentionHours") ?? 24
+    this.defaultProjectBudgetUsd = ctx.getSetting<number>("defaultProjectBudgetUsd") || 0
+    this.globalMonthlyBudgetUsd = ctx.getSetting<number>("globalMonthlyBudgetUsd") || 0
     this.claudeMdPath = join(
       resolve(process.cwd(), "plugins", "pearbot"),
       "CLAUDE.md"
@@ -51,11 +260,29 @@ export class PearBotManager extends EventEmitter {
     // Wire up notification forwarding to main Claude
     this.on("notification", ({ projectId, notification }: { projectId: string; notification: ProjectNotification }) => {
       this.forwardNotification(projectId, notification)
+      this.publishEvent(projectId, "notification", { ...notification })
+      if (notification.status === "progress" && notification.phase) {
+        this.checkpoint(projectId, `[${notification.phase}] ${notification.content.split("\n")[0].substring(0, 72)}`)
+      }
+    })
+    this.on("agentExit", ({ projectId, exitCode }: { projectId: string; exitCode: number | null }) => {
+      this.publishEvent(projectId, "agent", { state: "exited", exitCode })
+      this.checkpoint(projectId, `Agent exited (code ${exitCode})`)
+      this.processQueue()
+    })
+
+    // A build slot frees up whenever a project leaves the building states
+    this.on("event", (event: PearBotEvent) => {
+      const freedSlot = event.data.from === "building" || event.data.from === "creating" || event.data.from === "verifying"
+      if (event.type === "status" && freedSlot) {
+        this.processQueue()
+      }
     })
 
     this.startReminderInterval()
     this.startCleanupInterval()
     this.startStalledCheckInterval()
+    this.startDigestInterval()
   }
 
   // ── Initialization ──────────────────────────────────────────
@@ -66,8 +293,8 @@ export class PearBotManager extends EventEmitter {
       mkdirSync(this.projectsDir, { recursive: true })
     }
 
-    // Create DB table
-    const db = this.ctx.getDb() as { run: (sql: string) => void; query: (sql: string) => { all: () => Record<string, unknown>[] } }
+    // Create DB tables
+    const db = this.getDb()
     db.run(`
       CREATE TABLE IF NOT EXISTS pearbot_projects (
         id TEXT PRIMARY KEY,
@@ -84,6 +311,98 @@ export class PearBotManager extends EventEmitter {
         last_notification_json TEXT
       )
     `)
+    db.run(`
+      CREATE TABLE IF NOT EXISTS pearbot_transcript (
+        project_id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        content TEXT NOT NULL,
+        data_json TEXT,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (project_id, seq)
+      )
+    `)
+    db.run(`
+      CREATE TABLE IF NOT EXISTS pearbot_queue (
+        project_id TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,
+        prompt TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        enqueued_at TEXT NOT NULL
+      )
+    `)
+    this.addColumnIfMissing("pearbot_queue", "fresh", "INTEGER NOT NULL DEFAULT 0")
+    this.addColumnIfMissing("pearbot_projects", "archive_path", "TEXT")
+    this.addColumnIfMissing("pearbot_projects", "budget_usd", "REAL")
+    this.addColumnIfMissing("pearbot_projects", "verification_json", "TEXT")
+    this.addColumnIfMissing("pearbot_projects", "verbosity", "TEXT")
+    this.addColumnIfMissing("pearbot_projects", "agent_policy_json", "TEXT")
+    db.run(`
+      CREATE TABLE IF NOT EXISTS pearbot_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project_id TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        ended_at TEXT,
+        exit_code INTEGER,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_creation_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0,
+        turns INTEGER NOT NULL DEFAULT 0,
+        wall_clock_ms INTEGER NOT NULL DEFAULT 0
+      )
+    `)
+    db.run(`
+      CREATE TABLE IF NOT EXISTS pearbot_activity (
+        project_id TEXT NOT NULL,
+        tool_use_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        tool TEXT NOT NULL,
+        target TEXT,
+        summary TEXT NOT NULL,
+        status TEXT NOT NULL,
+        exit_code INTEGER,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        PRIMARY KEY (project_id, tool_use_id)
+      )
+    `)
+    // Runs still open from before a restart ended when the process died
+    db.run("UPDATE pearbot_runs SET ended_at = started_at WHERE ended_at IS NULL")
+    db.run(`
+      CREATE TABLE IF NOT EXISTS pearbot_sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project_id TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        parent_session_id TEXT,
+        mode TEXT NOT NULL,
+        started_at TEXT NOT NULL
+      )
+    `)
+    db.run(`
+      CREATE TABLE IF NOT EXISTS pearbot_questions (
+        project_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        question TEXT NOT NULL,
+        options_json TEXT,
+        default_answer TEXT,
+        deadline TEXT,
+        status TEXT NOT NULL,
+        answer TEXT,
+        note TEXT,
+        asked_at TEXT NOT NULL,
+        answered_at TEXT,
+        delivered_at TEXT,
+        PRIMARY KEY (project_id, id)
+      )
+    `)
+    // The agents that asked these are gone, so their answers can never be delivered
+    db.run(
+      "UPDATE pearbot_questions SET status = 'cancelled', answered_at = ? WHERE status = 'pending'",
+      new Date().toISOString()
+    )
+    this.projectEnv.init()
 
     // Load existing projects from DB
     const rows = db.query("SELECT * FROM pearbot_projects").all()
@@ -93,7 +412,7 @@ export class PearBotManager extends EventEmitter {
         name: row.name as string,
         description: row.description as string,
         techStack: (row.tech_stack as string) || null,
-        status: (row.status as ProjectStatus) === "building" || (row.status as ProjectStatus) === "creating"
+        status: ["building", "creating", "verifying"].includes(row.status as string)
           ? "stopped"
           : row.status as ProjectStatus,
         directory: row.directory as string,
@@ -107,12 +426,46 @@ export class PearBotManager extends EventEmitter {
         serverProcess: null,
         agentProcess: null,
         sessionId: (row.session_id as string) || null,
-        outputBuffer: "",
+        queuePosition: null,
+        archivePath: (row.archive_path as string) || null,
+        usage: this.loadUsageTotals(row.id as string),
+        budgetUsd: (row.budget_usd as number) || null,
+        currentActivity: null,
+        verification: row.verification_json ? JSON.parse(row.verification_json as string) : null,
+        verbosity: (row.verbosity as NotificationVerbosity) || this.defaultVerbosity,
+        agentPolicy: row.agent_policy_json
+          ? JSON.parse(row.agent_policy_json as string)
+          : { ...this.defaultAgentPolicy },
+      }
+      // A verification interrupted by a restart never finished
+      if (project.verification?.status === "running") {
+        project.verification.status = "cancelled"
+        project.verification.finishedAt = project.updatedAt
       }
       this.projects.set(project.id, project)
+      this.knownStatus.set(project.id, project.status)
     }
 
-    this.ctx.log.info(`PearBot initialized. ${this.projects.size} existing project(s). Dir: ${this.projectsDir}`)
+    // Restore the build queue
+    const queueRows = db.query("SELECT * FROM pearbot_queue ORDER BY position ASC").all()
+    for (const row of queueRows) {
+      const project = this.projects.get(row.project_id as string)
+      if (!project || project.status !== "queued") continue
+      this.buildQueue.push({
+        projectId: row.project_id as string,
+        kind: row.kind as QueuedBuild["kind"],
+        prompt: row.prompt as string,
+        fresh: row.fresh === 1,
+        enqueuedAt: row.enqueued_at as string,
+      })
+    }
+    this.persistQueue()
+
+    this.ctx.log.info(
+      `PearBot initialized. ${this.projects.size} existing project(s), ${this.buildQueue.length} queued. Dir: ${this.projectsDir}`
+    )
+
+    this.processQueue()
   }
 
   // ── Project Creation ────────────────────────────────────────
@@ -120,18 +473,21 @@ export class PearBotManager extends EventEmitter {
   async createProject(
     name: string,
     description: string,
-    techStack?: string
+    techStack?: string,
+    options: { budgetUsd?: number; verbosity?: NotificationVerbosity; agentPolicy?: AgentPolicyUpdate } = {}
   ): Promise<{ projectId: string; status: ProjectStatus }> {
-    const running = this.getRunningCount()
-    if (running >= this.maxConcurrentBuilds) {
-      throw new Error(
-        `Max concurrent builds reached (${this.maxConcurrentBuilds}). Stop a running project first.`
-      )
-    }
+    this.assertGlobalBudgetAvailable()
+    if (options.verbosity) this.assertVerbosity(options.verbosity)
+    const agentPolicy = applyPolicyUpdate(this.defaultAgentPolicy, options.agentPolicy ?? {})
 
     const projectId = `proj_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
     const projectDir = join(this.projectsDir, projectId)
     mkdirSync(projectDir, { recursive: true })
+    try {
+      await ensureRepo({ gitDir: this.checkpointDir(projectId), workTree: projectDir }, SKIP_DIRS)
+    } catch (error) {
+      this.ctx.log.warn(`Could not initialize git for ${projectId}, checkpoints disabled:`, error)
+    }
 
     const now = new Date().toISOString()
     const project: ProjectMetadata = {
@@ -149,82 +505,392 @@ export class PearBotManager extends EventEmitter {
       serverProcess: null,
       agentProcess: null,
       sessionId: null,
-      outputBuffer: "",
+      queuePosition: null,
+      archivePath: null,
+      usage: emptyUsage(),
+      budgetUsd: options.budgetUsd || this.defaultProjectBudgetUsd || null,
+      verbosity: options.verbosity ?? this.defaultVerbosity,
+      agentPolicy,
+      currentActivity: null,
+      verification: null,
     }
 
     this.projects.set(projectId, project)
+    const prompt = this.buildCreatePrompt(name, description, techStack)
+
+    if (this.getRunningCount(projectId) >= this.maxConcurrentBuilds) {
+      this.enqueueBuild(project, "create", prompt)
+      this.ctx.log.info(`Queued project ${projectId}: ${name}`)
+      return { projectId, status: "queued" }
+    }
+
     this.saveProject(project)
 
     this.ctx.log.info(`Creating project ${projectId}: ${name}`)
 
-    await this.spawnAgent(projectId, this.buildCreatePrompt(name, description, techStack))
+    await this.spawnAgent(projectId, prompt)
 
     return { projectId, status: "creating" }
   }
 
   // ── Open/Resume Project ─────────────────────────────────────
 
+  /**
+   * Run a new task on an existing project. Resumes the project's last Claude
+   * session when one is stored (falling back to a fresh session if the resume
+   * fails); `fresh` forces a clean start that re-explores the files.
+   * `agentPolicy` changes the project's policy for this and later runs.
+   */
   async openProject(
     projectId: string,
-    task: string
-  ): Promise<{ status: ProjectStatus }> {
+    task: string,
+    options: { fresh?: boolean; agentPolicy?: AgentPolicyUpdate } = {}
+  ): Promise<{ status: ProjectStatus; resumed: boolean }> {
     const project = this.projects.get(projectId)
-    if (!project) throw new Error(`Project ${projectId} not found`)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+    this.assertNotArchived(project)
+    this.assertGlobalBudgetAvailable()
+    this.assertProjectBudgetAvailable(project)
+    if (options.agentPolicy) {
+      project.agentPolicy = applyPolicyUpdate(project.agentPolicy, options.agentPolicy)
+      this.saveProject(project)
+    }
 
-    if (this.agentProcesses.has(projectId)) {
+    if (this.agents.has(projectId)) {
       this.killAgentProcess(projectId)
     }
+    this.cancelVerification(projectId)
+    this.verificationRetries.delete(projectId)
+
+    const fresh = options.fresh === true
+    if (this.getRunningCount(projectId) >= this.maxConcurrentBuilds) {
+      this.enqueueBuild(project, "open", task, fresh)
+      this.ctx.log.info(`Queued task for project ${projectId}`)
+      return { status: "queued", resumed: false }
+    }
 
-    const running = this.getRunningCount()
-    if (running >= this.maxConcurrentBuilds) {
-      throw new Error(
-        `Max concurrent builds reached (${this.maxConcurrentBuilds}). Stop a running project first.`
-      )
+    this.dequeueBuild(projectId)
+    project.status = "building"
+    project.updatedAt = new Date().toISOString()
+    this.saveProject(project)
+
+    const resumed = await this.startOpenTask(project, task, fresh)
+
+    return { status: "building", resumed }
+  }
+
+  // ── Checkpoints ─────────────────────────────────────────────
+
+  async getHistory(projectId: string, limit = 50): Promise<Checkpoint[]> {
+    const project = this.projects.get(projectId)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+    await this.checkpointChains.get(projectId)
+    return listCheckpoints(this.checkpointRepo(project), limit)
+  }
+
+  async getDiff(
+    projectId: string,
+    options: { from?: string; to?: string; stat?: boolean } = {}
+  ): Promise<{ diff: string; truncated: boolean }> {
+    const project = this.projects.get(projectId)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+    await this.checkpointChains.get(projectId)
+
+    const diff = await diffCheckpoints(this.checkpointRepo(project), options)
+    return diff.length > DIFF_MAX_CHARS
+      ? { diff: diff.substring(0, DIFF_MAX_CHARS), truncated: true }
+      : { diff, truncated: false }
+  }
+
+  /**
+   * Restore the project files to a checkpoint. The current state is
+   * checkpointed first and the restore is recorded as a new commit.
+   */
+  async rollbackProject(projectId: string, ref: string): Promise<{ checkpoint: string | null }> {
+    const project = this.projects.get(projectId)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+    if (this.agents.has(projectId)) {
+      throw new ConflictError(`Project ${projectId} agent is running. Stop it before rolling back.`)
     }
 
-    const prompt = [
-      `You are resuming work on an existing project called "${project.name}".`,
-      `Project description: ${project.description}`,
-      project.techStack ? `Tech stack: ${project.techStack}` : "",
-      "",
-      "FIRST: Explore the existing files in this directory to understand what has already been built.",
-      "THEN: Perform this task:",
-      "",
-      task,
-    ]
-      .filter(Boolean)
-      .join("\n")
+    await this.checkpoint(projectId, `Before rollback to ${ref}`)
+    const hash = await this.enqueueCheckpointWork(projectId, () =>
+      restoreCheckpoint(this.checkpointRepo(project), ref, `Rollback to ${ref}`)
+    )
+    this.ctx.log.info(`Rolled back project ${projectId} to ${ref}`)
+    this.publishEvent(projectId, "checkpoint", { hash, message: `Rollback to ${ref}`, rollbackTo: ref })
 
-    project.status = "building"
     project.updatedAt = new Date().toISOString()
     this.saveProject(project)
+    return { checkpoint: hash }
+  }
 
-    await this.spawnAgent(projectId, prompt)
+  // ── Usage & Budgets ─────────────────────────────────────────
+
+  /** Per-run usage for a project, oldest first. */
+  getRuns(projectId: string): RunUsage[] {
+    if (!this.projects.has(projectId)) throw new NotFoundError(`Project ${projectId} not found`)
+    return this.getDb()
+      .query("SELECT * FROM pearbot_runs WHERE project_id = ? ORDER BY id ASC")
+      .all(projectId)
+      .map((row) => {
+        const live = this.agentRuns.get(projectId)
+        return {
+          runId: row.id as number,
+          startedAt: row.started_at as string,
+          endedAt: (row.ended_at as string) || null,
+          exitCode: (row.exit_code as number | null) ?? null,
+          inputTokens: row.input_tokens as number,
+          outputTokens: row.output_tokens as number,
+          cacheReadTokens: row.cache_read_tokens as number,
+          cacheCreationTokens: row.cache_creation_tokens as number,
+          costUsd: row.cost_usd as number,
+          turns: row.turns as number,
+          wallClockMs: live && live.runId === row.id ? Date.now() - live.startedAt : (row.wall_clock_ms as number),
+        }
+      })
+  }
 
-    return { status: "building" }
+  /** Set (or clear, with null) a project's spend limit. */
+  setBudget(projectId: string, budgetUsd: number | null): { budgetUsd: number | null; spentUsd: number } {
+    const project = this.projects.get(projectId)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+    if (budgetUsd !== null && (!isFinite(budgetUsd) || budgetUsd < 0)) {
+      throw new ValidationError("Budget must be a non-negative number")
+    }
+
+    project.budgetUsd = budgetUsd || null
+    project.updatedAt = new Date().toISOString()
+    this.saveProject(project)
+    return { budgetUsd: project.budgetUsd, spentUsd: project.usage.costUsd }
+  }
+
+  // ── Environment ─────────────────────────────────────────────
+
+  /** Set a variable for the project's agent, dev server and verification; applies from their next start. */
+  setProjectEnv(projectId: string, name: string, value: string, options: { secret?: boolean } = {}): ProjectEnvVar {
+    if (!this.projects.has(projectId)) throw new NotFoundError(`Project ${projectId} not found`)
+    return this.projectEnv.set(projectId, name, value, options.secret !== false)
+  }
+
+  unsetProjectEnv(projectId: string, name: string): { removed: boolean } {
+    if (!this.projects.has(projectId)) throw new NotFoundError(`Project ${projectId} not found`)
+    return { removed: this.projectEnv.unset(projectId, name) }
+  }
+
+  /** The project's variables; secret values are left out. */
+  listProjectEnv(projectId: string): ProjectEnvVar[] {
+    if (!this.projects.has(projectId)) throw new NotFoundError(`Project ${projectId} not found`)
+    return this.projectEnv.list(projectId)
+  }
+
+  /** Replace the project's secret values in text headed for chat, logs or API responses. */
+  redact(projectId: string, text: string): string {
+    return this.projectEnv.redact(projectId, text)
+  }
+
+  /** Choose how much of a project's progress chatter is forwarded to chat. */
+  setVerbosity(projectId: string, verbosity: NotificationVerbosity): { verbosity: NotificationVerbosity } {
+    const project = this.projects.get(projectId)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+    this.assertVerbosity(verbosity)
+
+    project.verbosity = verbosity
+    project.updatedAt = new Date().toISOString()
+    this.saveProject(project)
+    if (verbosity === "final-only") this.progressThrottle.discard(projectId)
+    return { verbosity }
+  }
+
+  private assertVerbosity(verbosity: string): void {
+    if (!VERBOSITY_LEVELS.includes(verbosity as NotificationVerbosity)) {
+      throw new ValidationError(`Verbosity must be one of: ${VERBOSITY_LEVELS.join(", ")}`)
+    }
+  }
+
+  getGlobalSpend(): { monthlySpendUsd: number; monthlyBudgetUsd: number | null } {
+    return {
+      monthlySpendUsd: this.monthlySpend(),
+      monthlyBudgetUsd: this.globalMonthlyBudgetUsd || null,
+    }
+  }
+
+  /** Runs that have been started for a project, oldest first. */
+  getSessionChain(projectId: string): SessionRecord[] {
+    if (!this.projects.has(projectId)) throw new NotFoundError(`Project ${projectId} not found`)
+    return this.getDb()
+      .query("SELECT * FROM pearbot_sessions WHERE project_id = ? ORDER BY id ASC")
+      .all(projectId)
+      .map((row) => ({
+        sessionId: row.session_id as string,
+        parentSessionId: (row.parent_session_id as string) || null,
+        mode: row.mode as SessionRecord["mode"],
+        startedAt: row.started_at as string,
+      }))
+  }
+
+  // ── Build Queue ─────────────────────────────────────────────
+
+  getQueue(): Array<QueuedBuild & { position: number; name: string }> {
+    return this.buildQueue.map((job, i) => ({
+      ...job,
+      position: i + 1,
+      name: this.projects.get(job.projectId)?.name ?? job.projectId,
+    }))
+  }
+
+  /** Move a queued build to a 1-based position (clamped to the queue bounds). */
+  moveQueued(projectId: string, position: number): { position: number } {
+    const index = this.buildQueue.findIndex((job) => job.projectId === projectId)
+    if (index === -1) throw new ConflictError(`Project ${projectId} is not queued`)
+
+    const [job] = this.buildQueue.splice(index, 1)
+    const target = Math.min(Math.max(Math.floor(position) - 1, 0), this.buildQueue.length)
+    this.buildQueue.splice(target, 0, job)
+    this.persistQueue()
+
+    return { position: target + 1 }
+  }
+
+  cancelQueued(projectId: string): { cancelled: boolean } {
+    const project = this.projects.get(projectId)
+    if (!project || !this.dequeueBuild(projectId)) return { cancelled: false }
+
+    project.status = "stopped"
+    project.updatedAt = new Date().toISOString()
+    this.saveProject(project)
+
+    return { cancelled: true }
+  }
+
+  // ── Stall Handling ──────────────────────────────────────────
+
+  /**
+   * Give a running agent `minutes` more before stall detection stops it.
+   * Extensions add up and apply to both the idle and run-time limits.
+   */
+  extendProject(projectId: string, minutes: number): { idleDeadline: string | null; runDeadline: string | null } {
+    const project = this.projects.get(projectId)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+    const run = this.agentRuns.get(projectId)
+    if (!run || !this.agents.has(projectId)) throw new ConflictError(`Project ${projectId} agent not running`)
+    if (!Number.isFinite(minutes) || minutes <= 0) throw new ValidationError("minutes must be a positive number")
+
+    run.extensionMs += minutes * MINUTE_MS
+    run.stallWarned = false
+    this.publishEvent(projectId, "agent", { state: "extended", minutes })
+
+    const at = (ms: number) => new Date(ms).toISOString()
+    return {
+      idleDeadline: this.agentIdleTimeoutMs > 0 ? at(run.lastActivityAt + this.agentIdleTimeoutMs + run.extensionMs) : null,
+      runDeadline: this.agentRunTimeoutMs > 0 ? at(run.workStartedAt + this.agentRunTimeoutMs + run.extensionMs) : null,
+    }
   }
 
   // ── Send Message to Agent ───────────────────────────────────
 
   async sendToProject(projectId: string, message: string): Promise<{ status: ProjectStatus }> {
     const project = this.projects.get(projectId)
-    if (!project) throw new Error(`Project ${projectId} not found`)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+
+    const agent = this.agents.get(projectId)
+    if (!agent) {
+      throw new ConflictError(`Project ${projectId} agent not running`)
+    }
+
+    // A free-text reply answers every open question; answers already chosen go along with it
+    const answers = this.takeAnswers(projectId)
+    for (const question of this.getQuestions(projectId).filter((q) => q.status === "pending")) {
+      this.closeQuestion(question, "answered", message, null, true)
+    }
+
+    return this.deliverToAgent(project, agent, answers ? `${answers}\n\n${message}` : message)
+  }
+
+  /**
+   * Answer one structured question. `questionId` may be omitted when exactly
+   * one question is pending. A `choice` must be one of the question's options
+   * (by text or 1-based number); `note` is passed along as free text. The
+   * agent gets all answers together once no question is left pending.
+   */
+  async answerQuestion(
+    projectId: string,
+    questionId: string | undefined,
+    reply: { choice?: string; note?: string }
+  ): Promise<{ status: ProjectStatus; pendingQuestions: string[] }> {
+    const project = this.projects.get(projectId)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+    const agent = this.agents.get(projectId)
+    if (!agent) throw new ConflictError(`Project ${projectId} agent not running`)
+
+    const pending = this.getQuestions(projectId).filter((q) => q.status === "pending")
+    let question: ClarifyQuestion | undefined
+    if (questionId) {
+      question = this.getQuestions(projectId).find((q) => q.id === questionId)
+      if (!question) throw new NotFoundError(`Question ${questionId} not found in project ${projectId}`)
+      if (question.status !== "pending") throw new ConflictError(`Question ${questionId} is already ${question.status}`)
+    } else if (pending.length === 1) {
+      question = pending[0]
+    } else {
+      throw new ConflictError(
+        pending.length === 0
+          ? `Project ${projectId} has no pending questions`
+          : `Project ${projectId} has ${pending.length} pending questions (${pending.map((q) => q.id).join(", ")}); specify question_id`
+      )
+    }
 
-    const proc = this.agentProcesses.get(projectId)
-    if (!proc?.stdin) {
-      throw new Error(`Project ${projectId} agent not running`)
+    const note = reply.note?.trim() || null
+    let answer: string
+    if (reply.choice !== undefined) {
+      answer = this.resolveChoice(question, reply.choice)
+    } else if (note) {
+      answer = note
+    } else {
+      throw new ValidationError("A choice or a message is required")
     }
+    this.closeQuestion(question, "answered", answer, answer === note ? null : note, false)
+
+    const remaining = pending.filter((q) => q.id !== question.id).map((q) => q.id)
+    if (remaining.length > 0) return { status: project.status, pendingQuestions: remaining }
 
-    const payload =
-      JSON.stringify({
-        type: "user",
-        message: { role: "user", content: message },
-      }) + "\n"
+    const { status } = await this.deliverToAgent(project, agent, this.takeAnswers(projectId) ?? answer)
+    return { status, pendingQuestions: [] }
+  }
+
+  /** Questions the project's agents have asked, oldest first. */
+  getQuestions(projectId: string): ClarifyQuestion[] {
+    if (!this.projects.has(projectId)) throw new NotFoundError(`Project ${projectId} not found`)
+    return this.getDb()
+      .query("SELECT * FROM pearbot_questions WHERE project_id = ? ORDER BY asked_at ASC, rowid ASC")
+      .all(projectId)
+      .map((row) => ({
+        projectId: row.project_id as string,
+        id: row.id as string,
+        question: row.question as string,
+        options: row.options_json ? JSON.parse(row.options_json as string) : null,
+        default: (row.default_answer as string | null) ?? null,
+        deadline: (row.deadline as string) || null,
+        status: row.status as ClarifyQuestion["status"],
+        answer: (row.answer as string | null) ?? null,
+        note: (row.note as string | null) ?? null,
+        askedAt: row.asked_at as string,
+        answeredAt: (row.answered_at as string) || null,
+      }))
+  }
 
+  private async deliverToAgent(
+    project: ProjectMetadata,
+    agent: AgentHandle,
+    message: string
+  ): Promise<{ status: ProjectStatus }> {
+    const projectId = project.id
     this.ctx.log.info(`>>> Project ${projectId}: ${message.substring(0, 100)}...`)
 
-    proc.stdin.write(payload)
-    proc.stdin.flush()
+    agent.send(message)
+    this.recordTranscript(projectId, "user", message)
+    const run = this.agentRuns.get(projectId)
+    if (run) run.workStartedAt = Date.now()
+    this.touchAgent(projectId)
 
     project.status = "building"
     project.waitingSince = null
@@ -264,17 +930,180 @@ export class PearBotManager extends EventEmitter {
 
   listProjectFiles(projectId: string): string[] {
     const project = this.projects.get(projectId)
-    if (!project) throw new Error(`Project ${projectId} not found`)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
     if (!existsSync(project.directory)) return []
     return this.walkDir(project.directory, project.directory)
   }
 
+  async readProjectFile(projectId: string, path: string, options: ReadFileOptions = {}): Promise<ProjectFileContent> {
+    const project = this.projects.get(projectId)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+    return readProjectFile(project.directory, path, options)
+  }
+
+  /**
+   * Stream the project as an archive. Skips the same directories as the file
+   * listing and adds a `pearbot-manifest.json` with the project metadata.
+   */
+  exportProject(
+    projectId: string,
+    format: ArchiveFormat
+  ): { stream: ReadableStream<Uint8Array>; filename: string; contentType: string } {
+    const project = this.projects.get(projectId)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+    if (!existsSync(project.directory)) throw new NotFoundError(`Project ${projectId} directory is missing`)
+
+    const slug = project.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || project.id
+    const entries = collectEntries(project.directory, slug, SKIP_DIRS)
+
+    const manifest = new TextEncoder().encode(
+      JSON.stringify(
+        {
+          id: project.id,
+          name: project.name,
+          description: project.description,
+          techStack: project.techStack,
+          status: project.status,
+          sessionId: project.sessionId,
+          createdAt: project.createdAt,
+          updatedAt: project.updatedAt,
+          lastNotification: project.lastNotification,
+          exportedAt: new Date().toISOString(),
+          fileCount: entries.length,
+        },
+        null,
+        2
+      ) + "\n"
+    )
+    entries.push({
+      name: `${slug}/pearbot-manifest.json`,
+      source: manifest,
+      size: manifest.length,
+      mode: 0o644,
+      mtime: new Date(),
+    })
+
+    return {
+      stream: createArchiveStream(format, entries),
+      filename: `${slug}.${format}`,
+      contentType: ARCHIVE_CONTENT_TYPES[format],
+    }
+  }
+
+  /**
+   * Write a project archive under `<projectsDir>/exports` and return where it
+   * went. Exports are removed with their project and after `exportRetentionHours`.
+   */
+  async exportProjectToFile(projectId: string, format: ArchiveFormat): Promise<{ path: string; size: number }> {
+    const { stream, filename } = this.exportProject(projectId, format)
+    this.pruneExports()
+    mkdirSync(this.exportsDir, { recursive: true })
+
+    const path = join(this.exportsDir, `${projectId}-${filename}`)
+    const size = await Bun.write(path, new Response(stream))
+    this.ctx.log.info(`Exported project ${projectId} to ${path} (${size} bytes)`)
+    return { path, size }
+  }
+
+  /** Absolute path of a file inside the project, for streaming it directly. */
+  resolveProjectFile(projectId: string, path: string): string {
+    const project = this.projects.get(projectId)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+    return resolveProjectPath(project.directory, path)
+  }
+
+  /**
+   * Page through a project's persisted transcript. `after` is the cursor
+   * (the last seq already seen); `tail` returns the most recent entries instead.
+   */
+  getTranscript(
+    projectId: string,
+    options: { after?: number; limit?: number; tail?: boolean } = {}
+  ): { entries: TranscriptEntry[]; nextCursor: number | null } {
+    const project = this.projects.get(projectId)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+
+    const limit = Math.min(Math.max(options.limit || TRANSCRIPT_DEFAULT_PAGE, 1), TRANSCRIPT_MAX_PAGE)
+    const db = this.getDb()
+
+    let rows: Record<string, unknown>[]
+    if (options.tail && options.after === undefined) {
+      rows = db
+        .query("SELECT * FROM pearbot_transcript WHERE project_id = ? ORDER BY seq DESC LIMIT ?")
+        .all(projectId, limit)
+        .reverse()
+    } else {
+      rows = db
+        .query("SELECT * FROM pearbot_transcript WHERE project_id = ? AND seq > ? ORDER BY seq ASC LIMIT ?")
+        .all(projectId, options.after ?? 0, limit)
+    }
+
+    const entries = rows.map((row) => ({
+      projectId: row.project_id as string,
+      seq: row.seq as number,
+      kind: row.kind as TranscriptEntryKind,
+      // Also catches values written before they were stored as secrets
+      content: this.projectEnv.redact(projectId, row.content as string),
+      data: row.data_json ? this.redactValue(projectId, JSON.parse(row.data_json as string) as Record<string, unknown>) : null,
+      createdAt: row.created_at as string,
+    }))
+
+    const last = entries[entries.length - 1]
+    const hasMore = last
+      ? db
+          .query("SELECT 1 FROM pearbot_transcript WHERE project_id = ? AND seq > ? LIMIT 1")
+          .get(projectId, last.seq) !== null
+      : false
+
+    return { entries, nextCursor: hasMore ? last.seq : null }
+  }
+
+  /** The most recent agent actions for a project, oldest first. */
+  getActivity(projectId: string, limit = ACTIVITY_DEFAULT_LIMIT): ActivityEntry[] {
+    if (!this.projects.has(projectId)) throw new NotFoundError(`Project ${projectId} not found`)
+    const limitRows = Math.min(Math.max(limit, 1), ACTIVITY_MAX_LIMIT)
+    return this.getDb()
+      .query("SELECT * FROM pearbot_activity WHERE project_id = ? ORDER BY started_at DESC, rowid DESC LIMIT ?")
+      .all(projectId, limitRows)
+      .reverse()
+      .map((row) => ({
+        toolUseId: row.tool_use_id as string,
+        kind: row.kind as ActivityEntry["kind"],
+        tool: row.tool as string,
+        target: (row.target as string) || null,
+        summary: row.summary as string,
+        status: row.status as ActivityEntry["status"],
+        exitCode: (row.exit_code as number | null) ?? null,
+        startedAt: row.started_at as string,
+        finishedAt: (row.finished_at as string) || null,
+      }))
+  }
+
+  // ── Events ──────────────────────────────────────────────────
+
+  /**
+   * Recent events from the in-memory history, oldest first. Used to replay
+   * state to event-stream subscribers when they connect.
+   */
+  getRecentEvents(options: { projectId?: string; afterId?: number; limit?: number } = {}): PearBotEvent[] {
+    let events = this.eventHistory
+    if (options.projectId) events = events.filter((e) => e.projectId === options.projectId)
+    if (options.afterId !== undefined) events = events.filter((e) => e.id > options.afterId!)
+    if (options.limit !== undefined) events = events.slice(-options.limit)
+    return events
+  }
+
+  hasProject(projectId: string): boolean {
+    return this.projects.has(projectId)
+  }
+
   // ── Stop Project ────────────────────────────────────────────
 
   async stopProject(projectId: string): Promise<{ stopped: boolean }> {
     const project = this.projects.get(projectId)
     if (!project) return { stopped: false }
 
+    this.dequeueBuild(projectId)
     this.killAgentProcess(projectId)
     this.killServerProcess(projectId)
 
@@ -290,9 +1119,10 @@ export class PearBotManager extends EventEmitter {
   async serveProject(
     projectId: string,
     command?: string
-  ): Promise<{ port: number; url: string }> {
+  ): Promise<{ port: number; url: string; previewPath: string }> {
     const project = this.projects.get(projectId)
-    if (!project) throw new Error(`Project ${projectId} not found`)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+    this.assertNotArchived(project)
 
     this.killServerProcess(projectId)
 
@@ -301,43 +1131,84 @@ export class PearBotManager extends EventEmitter {
 
     // Find the actual project root (agent may create a nested subdirectory)
     const serveDir = this.findProjectRoot(project.directory)
-    const cmd = command || this.detectServeCommand(serveDir)
+    const basePath = this.previewBaseUrl ? new URL(this.previewBaseUrl).pathname.replace(/\/$/, "") + previewPath(projectId) : null
+    const detected = command ? null : this.detectServeCommand(serveDir, port, basePath)
+    const cmd = command || detected!.command
     const parts = cmd.split(" ")
 
     this.ctx.log.info(`Serving project ${projectId} on port ${port} in ${serveDir}: ${cmd}`)
 
-    const env = { ...process.env, PORT: String(port) }
-    const proc = spawn(parts, {
+    if (detected?.basePath) this.serverBasePaths.set(projectId, detected.basePath)
+    else this.serverBasePaths.delete(projectId)
+
+    const bindAll = this.bindsAllInterfaces()
+    const env: Record<string, string> = {
+      ...this.projectEnv.values(projectId),
+      PORT: String(port),
+      HOST: bindAll ? "0.0.0.0" : "127.0.0.1",
+    }
+    if (basePath) env.BASE_PATH = basePath
+    const sandboxed = this.sandbox.wrap(parts, { writableDir: project.directory, cwd: serveDir, env })
+    const proc = spawn(sandboxed.command, {
       cwd: serveDir,
-      env,
+      env: sandboxed.env,
       stdin: "ignore",
       stdout: "pipe",
       stderr: "pipe",
     })
 
     this.serverProcesses.set(projectId, proc)
+    this.publishEvent(projectId, "server", { state: "starting", port, command: cmd })
+
+    const logFile = this.openServerLog(projectId, cmd, port)
+    this.serverLogs.set(projectId, [])
+    const pumps = Promise.all([
+      this.pumpServerOutput(projectId, proc.stdout, logFile),
+      this.pumpServerOutput(projectId, proc.stderr, logFile),
+    ]).finally(() => logFile?.end())
 
-    // Wait briefly to catch immediate failures (exit 127 = command not found, etc.)
-    const earlyExit = await Promise.race([
-      proc.exited.then((code) => code),
-      new Promise<null>((resolve) => setTimeout(() => resolve(null), 3000)),
-    ])
+    const readiness = await this.waitForServerReady(port, proc.exited)
+
+    if (readiness !== "ready") {
+      if (readiness === "timeout") {
+        try { proc.kill() } catch { /* Already dead */ }
+      }
+      // Let the last output land in the buffer before quoting it
+      await Promise.race([pumps, new Promise((resolve) => setTimeout(resolve, 500))])
 
-    if (earlyExit !== null) {
       this.allocatedPorts.delete(port)
       this.serverProcesses.delete(projectId)
+      this.publishEvent(projectId, "server", {
+        state: "failed",
+        port,
+        ...(readiness === "timeout" ? { reason: "timeout" } : { exitCode: readiness.exitCode }),
+      })
       project.status = "failed"
       project.updatedAt = new Date().toISOString()
       this.saveProject(project)
+
+      const tail = this.getServerLogs(projectId, SERVER_LOG_ERROR_LINES)
+      const violation = readiness === "timeout" ? null : this.sandbox.describeViolation(readiness.exitCode, tail.join("\n"))
+      if (violation) this.reportServerViolation(projectId, violation)
+      const reason = readiness === "timeout"
+        ? `did not respond on port ${port} within ${this.serveReadyTimeoutMs / 1000}s`
+        : violation ? `${violation} (exit code ${readiness.exitCode})` : `exited with code ${readiness.exitCode}`
       throw new Error(
-        `Dev server exited immediately with code ${earlyExit}. Command: "${cmd}" in ${serveDir}`
+        `Dev server ${reason}. Command: "${cmd}" in ${serveDir}` +
+          (tail.length > 0 ? `\nLast output:\n${tail.join("\n")}` : "\n(no output)")
       )
     }
 
     proc.exited.then((exitCode) => {
       this.ctx.log.info(`Dev server for ${projectId} exited with code ${exitCode}`)
       this.allocatedPorts.delete(port)
-      this.serverProcesses.delete(projectId)
+      if (this.serverProcesses.get(projectId) === proc) {
+        this.appendServerLog(projectId, `[pearbot] dev server exited with code ${exitCode}`, null)
+        this.serverProcesses.delete(projectId)
+        this.publishEvent(projectId, "server", { state: "exited", port, exitCode })
+        const violation = this.sandbox.describeViolation(exitCode, this.getServerLogs(projectId, SERVER_LOG_ERROR_LINES).join("\n"))
+        if (violation) this.reportServerViolation(projectId, violation)
+      }
       const p = this.projects.get(projectId)
       if (p && p.status === "serving") {
         p.status = "completed"
@@ -352,98 +1223,371 @@ export class PearBotManager extends EventEmitter {
     project.updatedAt = new Date().toISOString()
     this.saveProject(project)
 
-    const host = this.publicHost || "localhost"
-    const url = `http://${host}:${port}`
-    return { port, url }
+    const path = previewPath(projectId)
+    const url = this.serveUrl(projectId, port)
+    this.publishEvent(projectId, "server", { state: "running", port, url, previewPath: path })
+    return { port, url, previewPath: path }
   }
 
-  // ── Stop All ────────────────────────────────────────────────
+  /**
+   * Where a served project is reached: through the preview proxy when its
+   * public URL is known, else on the dev server's own port.
+   */
+  serveUrl(projectId: string, port: number): string {
+    return this.previewBaseUrl
+      ? this.previewBaseUrl + previewPath(projectId)
+      : `http://${this.publicHost || "localhost"}:${port}`
+  }
 
-  async stopAll(): Promise<void> {
-    if (this.reminderInterval) {
-      clearInterval(this.reminderInterval)
-      this.reminderInterval = null
-    }
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval)
-      this.cleanupInterval = null
-    }
-    if (this.stalledCheckInterval) {
-      clearInterval(this.stalledCheckInterval)
-      this.stalledCheckInterval = null
-    }
+  private reportServerViolation(projectId: string, violation: string): void {
+    this.ctx.log.warn(`Dev server for ${projectId} ${violation}`)
+    this.emit("notification", {
+      projectId,
+      notification: { status: "failed", content: `Dev server stopped: it ${violation}.` },
+    })
+  }
 
-    for (const projectId of this.projects.keys()) {
-      this.killAgentProcess(projectId)
-      this.killServerProcess(projectId)
+  /** Stop a project's dev server, leaving any running agent alone. */
+  stopServer(projectId: string): { stopped: boolean } {
+    const project = this.projects.get(projectId)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+    if (!this.serverProcesses.has(projectId)) throw new ConflictError(`Project ${projectId} is not being served`)
+
+    this.killServerProcess(projectId)
+    if (project.status === "serving") {
+      project.status = "completed"
+      project.updatedAt = new Date().toISOString()
+      this.saveProject(project)
     }
+    return { stopped: true }
+  }
 
-    this.allocatedPorts.clear()
+  /**
+   * Where the preview proxy should send a request for `path` (relative to the
+   * project's preview root). Dev servers told about their public base path
+   * expect it on every request; others are served from `/`.
+   */
+  getPreviewTarget(projectId: string, path: string): { port: number; path: string } {
+    const project = this.projects.get(projectId)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+    if (project.status !== "serving" || !project.servingPort) {
+      throw new ConflictError(`Project ${projectId} is not being served`)
+    }
+    const base = this.serverBasePaths.get(projectId) ?? "/"
+    return { port: project.servingPort, path: base + path.replace(/^\/+/, "") }
   }
 
-  // ── Private: Agent Spawning ─────────────────────────────────
+  /**
+   * The last `lines` lines of dev-server output. Falls back to the log file
+   * when the server hasn't run since the plugin started.
+   */
+  getServerLogs(projectId: string, lines = 100): string[] {
+    if (!this.projects.has(projectId)) throw new NotFoundError(`Project ${projectId} not found`)
+    const lineCount = Math.max(lines, 1)
 
-  private async spawnAgent(projectId: string, initialPrompt: string): Promise<void> {
-    const project = this.projects.get(projectId)
-    if (!project) return
+    const buffered = this.serverLogs.get(projectId)
+    if (buffered) return buffered.slice(-lineCount)
 
-    let systemPrompt = ""
+    const path = this.serverLogPath(projectId)
+    if (!existsSync(path)) return []
     try {
-      systemPrompt = readFileSync(this.claudeMdPath, "utf-8")
+      return readFileSync(path, "utf-8").split("\n").filter(Boolean).slice(-lineCount)
     } catch {
-      this.ctx.log.warn("Could not read CLAUDE.md system prompt")
+      return []
     }
+  }
 
-    const args = [
-      "-p",
-      "--verbose",
-      "--dangerously-skip-permissions",
-      "--input-format", "stream-json",
-      "--output-format", "stream-json",
-    ]
+  // ── Deletion & Archival ─────────────────────────────────────
 
-    if (systemPrompt) {
-      args.push("--system-prompt", systemPrompt)
-    }
+  /**
+   * Permanently delete a project: stops its agent and dev server, removes the
+   * directory, and drops every DB row. Trigger mappings and webhook deliveries
+   * are dropped by their owners on the "deleted" status event. With `dryRun`,
+   * only reports the plan.
+   */
+  async deleteProject(projectId: string, options: { dryRun?: boolean; reason?: string } = {}): Promise<RemovalPlan> {
+    const project = this.projects.get(projectId)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
 
-    const proc = spawn(["claude", ...args], {
-      cwd: project.directory,
-      stdin: "pipe",
-      stdout: "pipe",
-      stderr: "pipe",
-    }) as BunSubprocess
+    const plan = this.planRemoval(project, "delete", options.reason ?? null)
+    if (options.dryRun) return plan
 
-    this.agentProcesses.set(projectId, proc)
-    project.agentProcess = proc
+    this.dequeueBuild(projectId)
+    this.killAgentProcess(projectId)
+    this.killServerProcess(projectId)
+    await this.checkpointChains.get(projectId)
 
-    this.readOutputStream(projectId)
-    this.readErrorStream(projectId)
+    this.removeProjectDirectory(project.directory)
+    if (project.archivePath) rmSync(project.archivePath, { force: true })
+    rmSync(this.serverLogPath(projectId), { force: true })
+    rmSync(this.agentConfigDir(projectId), { recursive: true, force: true })
+    rmSync(this.checkpointDir(projectId), { recursive: true, force: true })
+    this.removeExports((name) => name.startsWith(`${projectId}-`))
+    this.serverLogs.delete(projectId)
+    this.projectEnv.forget(projectId)
 
-    proc.exited.then((exitCode) => {
-      this.ctx.log.info(`Agent for ${projectId} exited with code: ${exitCode}`)
-      this.agentProcesses.delete(projectId)
-      const p = this.projects.get(projectId)
-      if (p) {
-        p.agentProcess = null
-        if (p.status === "building" || p.status === "creating") {
-          p.status = exitCode === 0 ? "completed" : "failed"
+    try {
+      const db = this.getDb()
+      for (const table of ["pearbot_transcript", "pearbot_sessions", "pearbot_queue", "pearbot_runs", "pearbot_activity", "pearbot_questions", "pearbot_env"]) {
+        db.run(`DELETE FROM ${table} WHERE project_id = ?`, projectId)
+      }
+      db.run("DELETE FROM pearbot_projects WHERE id = ?", projectId)
+    } catch (error) {
+      this.ctx.log.error(`Failed to delete DB rows for ${projectId}:`, error)
+    }
+
+    this.projects.delete(projectId)
+    this.knownStatus.delete(projectId)
+    this.transcriptSeq.delete(projectId)
+    this.checkpointChains.delete(projectId)
+    this.progressThrottle.forget(projectId)
+    this.lastPhases.delete(projectId)
+    this.publishEvent(projectId, "status", { from: project.status, to: "deleted" })
+
+    this.ctx.log.info(`Deleted project ${projectId}${options.reason ? ` (${options.reason})` : ""}`)
+    return plan
+  }
+
+  /**
+   * Compress a project's directory to `<projectsDir>/archive/<id>.tar.gz`,
+   * with its checkpoint repo as `<id>.git/`, and remove both. The project
+   * stays listed with status `archived`.
+   */
+  async archiveProject(projectId: string, options: { dryRun?: boolean; reason?: string } = {}): Promise<RemovalPlan> {
+    const project = this.projects.get(projectId)
+    if (!project) throw new NotFoundError(`Project ${projectId} not found`)
+    this.assertNotArchived(project)
+
+    const plan = this.planRemoval(project, "archive", options.reason ?? null)
+    if (options.dryRun) return plan
+
+    this.dequeueBuild(projectId)
+    this.killAgentProcess(projectId)
+    this.killServerProcess(projectId)
+    await this.checkpoint(projectId, "Archived")
+
+    mkdirSync(join(this.projectsDir, "archive"), { recursive: true })
+    const entries = [
+      ...collectEntries(project.directory, project.id, ARCHIVE_SKIP_DIRS),
+      ...collectEntries(this.checkpointDir(projectId), `${project.id}.git`, new Set()),
+    ]
+    await Bun.write(plan.archivePath!, new Response(createArchiveStream("tar.gz", entries)))
+    this.removeProjectDirectory(project.directory)
+    rmSync(this.checkpointDir(projectId), { recursive: true, force: true })
+
+    project.status = "archived"
+    project.archivePath = plan.archivePath
+    project.waitingSince = null
+    project.updatedAt = new Date().toISOString()
+    this.saveProject(project)
+
+    this.ctx.log.info(`Archived project ${projectId} to ${plan.archivePath}${options.reason ? ` (${options.reason})` : ""}`)
+    return plan
+  }
+
+  /**
+   * Apply the retention settings: delete failed projects idle longer than
+   * `autoDeleteFailedAfterDays`, then archive finished projects idle longer
+   * than `autoArchiveAfterDays`. With `dryRun`, nothing is touched.
+   */
+  async applyRetention(dryRun: boolean): Promise<RetentionReport> {
+    const actions: RemovalPlan[] = []
+    const now = Date.now()
+
+    for (const project of Array.from(this.projects.values())) {
+      const idleDays = (now - new Date(project.updatedAt).getTime()) / DAY_MS
+
+      try {
+        if (
+          this.autoDeleteFailedAfterDays > 0 &&
+          project.status === "failed" &&
+          idleDays > this.autoDeleteFailedAfterDays
+        ) {
+          const reason = `failed and idle for ${Math.floor(idleDays)} days`
+          actions.push(await this.deleteProject(project.id, { dryRun, reason }))
+        } else if (
+          this.autoArchiveAfterDays > 0 &&
+          (project.status === "completed" || project.status === "failed" || project.status === "stopped") &&
+          idleDays > this.autoArchiveAfterDays
+        ) {
+          const reason = `${project.status} and idle for ${Math.floor(idleDays)} days`
+          actions.push(await this.archiveProject(project.id, { dryRun, reason }))
+        }
+      } catch (error) {
+        this.ctx.log.error(`Retention failed for ${project.id}:`, error)
+      }
+    }
+
+    return { dryRun, actions }
+  }
+
+  // ── Stop All ────────────────────────────────────────────────
+
+  async stopAll(): Promise<void> {
+    if (this.reminderInterval) {
+      clearInterval(this.reminderInterval)
+      this.reminderInterval = null
+    }
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval)
+      this.cleanupInterval = null
+    }
+    if (this.stalledCheckInterval) {
+      clearInterval(this.stalledCheckInterval)
+      this.stalledCheckInterval = null
+    }
+    if (this.digestInterval) {
+      clearInterval(this.digestInterval)
+      this.digestInterval = null
+    }
+    for (const timer of this.questionTimers.values()) clearTimeout(timer)
+    this.questionTimers.clear()
+
+    for (const projectId of this.projects.keys()) {
+      this.killAgentProcess(projectId)
+      this.killServerProcess(projectId)
+    }
+
+    this.allocatedPorts.clear()
+  }
+
+  // ── Private: Agent Spawning ─────────────────────────────────
+
+  /**
+   * Spawn the agent for an open task: resume the stored session unless `fresh`
+   * is set or there is none. Returns whether a resume was attempted.
+   */
+  private async startOpenTask(project: ProjectMetadata, task: string, fresh: boolean): Promise<boolean> {
+    const freshPrompt = [
+      `You are resuming work on an existing project called "${project.name}".`,
+      `Project description: ${project.description}`,
+      project.techStack ? `Tech stack: ${project.techStack}` : "",
+      "",
+      "FIRST: Explore the existing files in this directory to understand what has already been built.",
+      "THEN: Perform this task:",
+      "",
+      task,
+    ]
+      .filter(Boolean)
+      .join("\n")
+
+    if (fresh || !project.sessionId) {
+      await this.spawnAgent(project.id, freshPrompt)
+      return false
+    }
+
+    const resumePrompt = [
+      `New task for "${project.name}". Continue from where we left off and perform this task:`,
+      "",
+      task,
+    ].join("\n")
+
+    this.ctx.log.info(`Resuming session ${project.sessionId} for project ${project.id}`)
+    await this.spawnAgent(project.id, resumePrompt, {
+      resumeSessionId: project.sessionId,
+      fallbackPrompt: freshPrompt,
+    })
+    return true
+  }
+
+  private async spawnAgent(
+    projectId: string,
+    initialPrompt: string,
+    options: { resumeSessionId?: string; fallbackPrompt?: string; mode?: SessionRecord["mode"] } = {}
+  ): Promise<void> {
+    const project = this.projects.get(projectId)
+    if (!project) return
+
+    let systemPrompt = ""
+    try {
+      systemPrompt = readFileSync(this.claudeMdPath, "utf-8")
+    } catch {
+      this.ctx.log.warn("Could not read CLAUDE.md system prompt")
+    }
+    systemPrompt = systemPrompt.includes(PROTOCOL_PLACEHOLDER)
+      ? systemPrompt.replace(PROTOCOL_PLACEHOLDER, protocolPrompt())
+      : [systemPrompt.trim(), protocolPrompt()].filter(Boolean).join("\n\n")
+
+    const agent = this.runner.spawn({
+      cwd: project.directory,
+      systemPrompt,
+      resumeSessionId: options.resumeSessionId ?? null,
+      policy: project.agentPolicy,
+      sandbox: this.sandbox,
+      env: this.projectEnv.values(projectId),
+      configDir: this.agentConfigDir(projectId),
+    })
+
+    this.agents.set(projectId, agent)
+    this.notificationParsers.set(projectId, new NotificationParser())
+    this.agentRuns.set(projectId, {
+      mode: options.resumeSessionId ? "resume" : options.mode ?? "new",
+      resumedFrom: options.resumeSessionId ?? null,
+      sessionId: null,
+      fallbackPrompt: options.fallbackPrompt ?? null,
+      runId: this.startRunRecord(projectId),
+      startedAt: Date.now(),
+      usage: emptyUsage(),
+      lastCostTotal: 0,
+      lastActivityAt: Date.now(),
+      workStartedAt: Date.now(),
+      extensionMs: 0,
+      stallWarned: false,
+      stderrTail: [],
+    })
+    project.agentProcess = agent
+    this.publishEvent(projectId, "agent", { state: "started" })
+
+    this.readOutputStream(projectId, agent)
+    this.readErrorStream(projectId, agent)
+
+    agent.exited.then((exitCode) => {
+      this.ctx.log.info(`Agent for ${projectId} exited with code: ${exitCode}`)
+      // A replacement agent may already be running (e.g. after pearbot_open)
+      const superseded = this.agents.has(projectId) && this.agents.get(projectId) !== agent
+      if (superseded) {
+        this.emit("agentExit", { projectId, exitCode })
+        return
+      }
+      this.agents.delete(projectId)
+
+      // A resume that dies before the session initializes gets a fresh session instead
+      const run = this.finishRun(projectId, exitCode)
+      if (run?.resumedFrom && !run.sessionId && exitCode !== 0 && run.fallbackPrompt) {
+        this.ctx.log.warn(`Resuming session ${run.resumedFrom} for ${projectId} failed, starting a fresh session`)
+        this.emit("agentExit", { projectId, exitCode })
+        this.spawnAgent(projectId, run.fallbackPrompt, { mode: "fallback" }).catch((error) => {
+          this.ctx.log.error(`Failed to start fallback session for ${projectId}:`, error)
+        })
+        return
+      }
+
+      const p = this.projects.get(projectId)
+      if (p) {
+        p.agentProcess = null
+        const violation = this.sandbox.describeViolation(exitCode, run?.stderrTail.join("\n") ?? "")
+        if (violation && this.isWorking(p)) {
+          this.pendingSuccess.delete(projectId)
+          p.status = "failed"
+          p.waitingSince = null
+          p.lastNotification = { status: "failed", content: `Agent stopped: it ${violation}.` }
+          this.ctx.log.warn(`Agent for ${projectId} ${violation}`)
+        } else if (p.status === "building" || p.status === "creating") {
+          p.status = exitCode === 0 ? "completed" : "failed"
         }
         p.updatedAt = new Date().toISOString()
         this.saveProject(p)
         this.emit("agentExit", { projectId, exitCode })
+        if (violation && p.lastNotification) this.emit("notification", { projectId, notification: p.lastNotification })
+        // The agent reported success but exited before its turn's result arrived
+        if (this.pendingSuccess.has(projectId)) this.runVerification(projectId)
       }
     })
 
-    await new Promise((resolve) => setTimeout(resolve, 2000))
+    await agent.ready
 
-    const payload =
-      JSON.stringify({
-        type: "user",
-        message: { role: "user", content: initialPrompt },
-      }) + "\n"
-
-    proc.stdin.write(payload)
-    proc.stdin.flush()
+    agent.send(initialPrompt)
+    this.recordTranscript(projectId, "user", initialPrompt)
 
     project.status = "building"
     project.updatedAt = new Date().toISOString()
@@ -452,123 +1596,411 @@ export class PearBotManager extends EventEmitter {
 
   // ── Private: NDJSON Output Parsing ──────────────────────────
 
-  private async readOutputStream(projectId: string): Promise<void> {
-    const proc = this.agentProcesses.get(projectId)
-    if (!proc?.stdout) return
-
+  private async readOutputStream(projectId: string, agent: AgentHandle): Promise<void> {
     const project = this.projects.get(projectId)
     if (!project) return
 
-    const stdout = proc.stdout as ReadableStream<Uint8Array>
-    const reader = stdout.getReader()
-    const decoder = new TextDecoder()
-
     try {
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
+      for await (const message of agent.messages) {
+        try {
+          this.handleAgentMessage(project, message)
+        } catch (error) {
+          this.ctx.log.error(`Error handling agent ${projectId} message:`, error)
+        }
+      }
+    } catch (error) {
+      this.ctx.log.error(`Error reading agent ${projectId} stdout:`, error)
+    }
+  }
 
-        project.outputBuffer += decoder.decode(value, { stream: true })
+  private handleAgentMessage(project: ProjectMetadata, message: AgentMessage): void {
+    const projectId = project.id
+    this.touchAgent(projectId)
 
-        const lines = project.outputBuffer.split("\n")
-        project.outputBuffer = lines.pop() || ""
+    if (message.type === "system" && message.subtype === "init" && typeof message.session_id === "string") {
+      const sessionId = message.session_id
+      const run = this.agentRuns.get(projectId)
+      if (run && !run.sessionId) {
+        run.sessionId = sessionId
+        this.recordSession(projectId, sessionId, run)
+      }
+      project.sessionId = sessionId
+      this.saveProject(project)
+    }
 
-        for (const line of lines) {
-          if (!line.trim()) continue
+    if (message.type === "assistant") {
+      for (const block of contentBlocks(message)) {
+        if (block.type === "tool_use") {
+          const id = typeof block.id === "string" ? block.id : ""
+          const name = typeof block.name === "string" ? block.name : ""
+          const input = this.redactValue(projectId, isRecord(block.input) ? block.input : {})
+          this.recordTranscript(projectId, "tool_use", name, { id, name, input })
+          this.publishEvent(projectId, "tool", { id, name, input })
+          this.startActivity(project, id, name, input)
+        }
 
-          try {
-            const message = JSON.parse(line)
+        if (block.type === "text" && typeof block.text === "string" && block.text) {
+          const text = this.projectEnv.redact(projectId, block.text)
+          this.recordTranscript(projectId, "assistant_text", text)
 
-            if (message.type === "system" && message.subtype === "init" && message.session_id) {
-              project.sessionId = message.session_id
-            }
+          const { notifications, errors } = this.notificationParser(projectId).push(text)
+          this.logProtocolErrors(projectId, errors)
+          for (const notification of notifications) this.applyNotification(project, notification)
+        }
+      }
+    }
 
-            if (message.type === "assistant") {
-              const content = message.message?.content
-              if (Array.isArray(content)) {
-                for (const block of content) {
-                  if (block.type === "text" && block.text) {
-                    const notification = this.parseNotification(block.text)
-                    if (notification) {
-                      project.lastNotification = notification
-                      project.updatedAt = new Date().toISOString()
-
-                      if (notification.status === "success") {
-                        project.status = "completed"
-                        project.waitingSince = null
-                      } else if (notification.status === "failed") {
-                        project.status = "failed"
-                        project.waitingSince = null
-                      } else if (notification.status === "clarify") {
-                        project.status = "waiting_for_input"
-                        project.waitingSince = new Date().toISOString()
-                      }
-
-                      this.saveProject(project)
-                      this.emit("notification", { projectId, notification })
-                    }
-                  }
-                }
-              }
-            }
+    if (message.type === "user") {
+      for (const block of contentBlocks(message)) {
+        if (block.type === "tool_result") {
+          const toolUseId = typeof block.tool_use_id === "string" ? block.tool_use_id : ""
+          const text = this.toolResultText(block.content)
+          this.recordTranscript(projectId, "tool_result", text, {
+            toolUseId,
+            isError: block.is_error === true,
+          })
+          this.finishActivity(project, toolUseId, text, block.is_error === true)
+        }
+      }
+    }
 
-            if (message.type === "result") {
-              const p = this.projects.get(projectId)
-              if (p && p.status === "building") {
-                // Agent turn ended — stays in building state
-              }
-            }
+    if (message.type === "result") {
+      this.recordTranscript(projectId, "result", typeof message.result === "string" ? message.result : "", {
+        subtype: message.subtype,
+        isError: message.is_error === true,
+        numTurns: message.num_turns,
+        durationMs: message.duration_ms,
+      })
+
+      this.recordUsage(projectId, message)
+      this.logProtocolErrors(projectId, this.notificationParser(projectId).flush().errors)
+      if (this.pendingSuccess.has(projectId)) this.runVerification(projectId)
+    }
 
-            this.emit("message", { projectId, message })
-          } catch {
-            // Not valid JSON, skip
-          }
+    this.emit("message", { projectId, message })
+  }
+
+  private async readErrorStream(projectId: string, agent: AgentHandle): Promise<void> {
+    try {
+      for await (const line of agent.diagnostics) {
+        const trimmed = line.trim()
+        if (!trimmed) continue
+        this.recordTranscript(projectId, "stderr", line)
+        const tail = this.agentRuns.get(projectId)?.stderrTail
+        if (tail) {
+          tail.push(trimmed)
+          if (tail.length > STDERR_TAIL_LINES) tail.shift()
+        }
+        if (!trimmed.startsWith("Debugger")) {
+          this.ctx.log.info(`[pearbot-stderr ${projectId}] ${this.projectEnv.redact(projectId, trimmed).substring(0, 200)}`)
         }
       }
     } catch (error) {
-      this.ctx.log.error(`Error reading agent ${projectId} stdout:`, error)
+      this.ctx.log.error(`Error reading agent ${projectId} stderr:`, error)
     }
   }
 
-  private async readErrorStream(projectId: string): Promise<void> {
-    const proc = this.agentProcesses.get(projectId)
-    if (!proc?.stderr) return
+  // ── Private: Activity ───────────────────────────────────────
 
-    const stderr = proc.stderr as ReadableStream<Uint8Array>
-    const reader = stderr.getReader()
-    const decoder = new TextDecoder()
+  private startActivity(project: ProjectMetadata, toolUseId: string, tool: string, input: Record<string, unknown>): void {
+    if (!toolUseId) return
+    const description = describeToolUse(tool, input, project.directory)
+    this.pendingTools.set(`${project.id}:${toolUseId}`, description)
+    project.currentActivity = description.summary
 
     try {
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        const text = decoder.decode(value, { stream: true })
-        if (text.trim()) {
-          const trimmed = text.trim()
-          if (trimmed.length > 0 && !trimmed.startsWith("Debugger")) {
-            this.ctx.log.info(`[pearbot-stderr ${projectId}] ${trimmed.substring(0, 200)}`)
-          }
-        }
+      this.getDb().run(
+        `INSERT OR REPLACE INTO pearbot_activity
+         (project_id, tool_use_id, kind, tool, target, summary, status, started_at)
+         VALUES (?, ?, ?, ?, ?, ?, 'running', ?)`,
+        project.id, toolUseId, description.kind, tool, description.target, description.summary,
+        new Date().toISOString()
+      )
+    } catch (error) {
+      this.ctx.log.error(`Failed to record activity for ${project.id}:`, error)
+    }
+  }
+
+  private finishActivity(project: ProjectMetadata, toolUseId: string, output: string, isError: boolean): void {
+    const key = `${project.id}:${toolUseId}`
+    const description = this.pendingTools.get(key)
+    if (!description) return
+    this.pendingTools.delete(key)
+
+    const exitCode = description.kind === "command" ? parseExitCode(output, isError) : null
+    const failed = isError || (exitCode !== null && exitCode !== 0)
+    const summary = describeResult(description, failed, exitCode)
+
+    // Only overwrite the rolling summary if nothing newer is still in flight
+    const stillPending = Array.from(this.pendingTools.keys()).some((k) => k.startsWith(`${project.id}:`))
+    if (!stillPending) project.currentActivity = summary
+
+    try {
+      this.getDb().run(
+        `UPDATE pearbot_activity SET status = ?, exit_code = ?, summary = ?, finished_at = ?
+         WHERE project_id = ? AND tool_use_id = ?`,
+        failed ? "error" : "ok", exitCode, summary, new Date().toISOString(), project.id, toolUseId
+      )
+    } catch (error) {
+      this.ctx.log.error(`Failed to update activity for ${project.id}:`, error)
+    }
+
+    this.publishEvent(project.id, "activity", {
+      toolUseId,
+      kind: description.kind,
+      target: description.target,
+      summary,
+      status: failed ? "error" : "ok",
+      exitCode,
+    })
+  }
+
+  /** Tool calls still in flight when the agent stops never get a result. */
+  private abandonPendingActivity(projectId: string): void {
+    for (const key of Array.from(this.pendingTools.keys())) {
+      if (key.startsWith(`${projectId}:`)) this.pendingTools.delete(key)
+    }
+    const project = this.projects.get(projectId)
+    if (project) project.currentActivity = null
+    try {
+      this.getDb().run(
+        `UPDATE pearbot_activity SET status = 'error', finished_at = ?
+         WHERE project_id = ? AND status = 'running'`,
+        new Date().toISOString(), projectId
+      )
+    } catch (error) {
+      this.ctx.log.error(`Failed to close activity for ${projectId}:`, error)
+    }
+  }
+
+  // ── Private: Transcript ─────────────────────────────────────
+
+  private recordTranscript(
+    projectId: string,
+    kind: TranscriptEntryKind,
+    content: string,
+    data?: Record<string, unknown>
+  ): void {
+    try {
+      const db = this.getDb()
+      let seq = this.transcriptSeq.get(projectId)
+      if (seq === undefined) {
+        const row = db
+          .query("SELECT MAX(seq) AS seq FROM pearbot_transcript WHERE project_id = ?")
+          .get(projectId)
+        seq = (row?.seq as number | null) ?? 0
       }
+      seq++
+      this.transcriptSeq.set(projectId, seq)
+
+      const redacted = this.projectEnv.redact(projectId, content)
+      const text = redacted.length > TRANSCRIPT_MAX_ENTRY_CHARS
+        ? redacted.substring(0, TRANSCRIPT_MAX_ENTRY_CHARS) + `\n… [truncated ${redacted.length - TRANSCRIPT_MAX_ENTRY_CHARS} chars]`
+        : redacted
+
+      db.run(
+        `INSERT INTO pearbot_transcript (project_id, seq, kind, content, data_json, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        projectId, seq, kind, text, data ? JSON.stringify(this.redactValue(projectId, data)) : null, new Date().toISOString()
+      )
     } catch (error) {
-      this.ctx.log.error(`Error reading agent ${projectId} stderr:`, error)
+      this.ctx.log.error(`Failed to record transcript for ${projectId}:`, error)
+    }
+  }
+
+  private toolResultText(content: unknown): string {
+    if (typeof content === "string") return content
+    if (Array.isArray(content)) {
+      return content
+        .map((c) => (c && typeof c === "object" && "text" in c ? String(c.text) : ""))
+        .filter(Boolean)
+        .join("\n")
     }
+    return ""
   }
 
   // ── Private: Notification Parsing ───────────────────────────
 
-  private parseNotification(text: string): ProjectNotification | null {
-    const match = text.match(
-      /<pearbot\s+status="(\w+)"(?:\s+phase="([^"]*)")?>([\s\S]*?)<\/pearbot>/
+  /** Per-session parser, so a tag split across messages is reassembled. */
+  private notificationParser(projectId: string): NotificationParser {
+    let parser = this.notificationParsers.get(projectId)
+    if (!parser) {
+      parser = new NotificationParser()
+      this.notificationParsers.set(projectId, parser)
+    }
+    return parser
+  }
+
+  private logProtocolErrors(projectId: string, errors: string[]): void {
+    for (const error of errors) this.ctx.log.warn(`Malformed <pearbot> tag from ${projectId}: ${error}`)
+  }
+
+  private applyNotification(project: ProjectMetadata, notification: ProjectNotification): void {
+    const projectId = project.id
+    project.lastNotification = notification
+    project.updatedAt = new Date().toISOString()
+
+    if (notification.status === "success" && this.verifyOnSuccess) {
+      // Hold the success back; verification starts once the agent's turn ends
+      project.status = "verifying"
+      project.waitingSince = null
+      this.pendingSuccess.set(projectId, notification)
+      this.saveProject(project)
+      return
+    } else if (notification.status === "success") {
+      project.status = "completed"
+      project.waitingSince = null
+    } else if (notification.status === "failed") {
+      project.status = "failed"
+      project.waitingSince = null
+    } else if (notification.status === "clarify") {
+      project.status = "waiting_for_input"
+      project.waitingSince = new Date().toISOString()
+      this.recordQuestion(project, notification)
+    }
+
+    this.saveProject(project)
+    this.emit("notification", { projectId, notification })
+  }
+
+  // ── Private: Questions ──────────────────────────────────────
+
+  /**
+   * Persist a clarify notification as a question. Fills in the notification's
+   * id (generated, or de-duplicated if the agent reused one) and, for questions
+   * with a default but no deadline, the configured default deadline.
+   */
+  private recordQuestion(project: ProjectMetadata, notification: ProjectNotification): void {
+    const taken = new Set(this.getQuestions(project.id).map((q) => q.id))
+    let id = notification.questionId ?? `q${taken.size + 1}`
+    for (let n = 2; taken.has(id); n++) id = `${notification.questionId ?? "q"}-${n}`
+    notification.questionId = id
+
+    if (!notification.deadline && notification.default !== undefined && this.clarifyDefaultDeadlineMs > 0) {
+      notification.deadline = new Date(Date.now() + this.clarifyDefaultDeadlineMs).toISOString()
+    }
+
+    const question: ClarifyQuestion = {
+      projectId: project.id,
+      id,
+      question: notification.content,
+      options: notification.options ?? null,
+      default: notification.default ?? null,
+      deadline: notification.deadline ?? null,
+      status: "pending",
+      answer: null,
+      note: null,
+      askedAt: new Date().toISOString(),
+      answeredAt: null,
+    }
+    try {
+      this.getDb().run(
+        `INSERT INTO pearbot_questions
+          (project_id, id, question, options_json, default_answer, deadline, status, asked_at)
+         VALUES (?, ?, ?, ?, ?, ?, 'pending', ?)`,
+        project.id, id, question.question,
+        question.options ? JSON.stringify(question.options) : null,
+        question.default, question.deadline, question.askedAt
+      )
+    } catch (error) {
+      this.ctx.log.error(`Failed to save question ${id} for ${project.id}:`, error)
+    }
+
+    if (question.deadline) {
+      const delay = Math.max(0, new Date(question.deadline).getTime() - Date.now())
+      this.questionTimers.set(`${project.id}:${id}`, setTimeout(() => this.expireQuestion(project.id, id), delay))
+    }
+    this.publishEvent(project.id, "question", { ...question })
+  }
+
+  private closeQuestion(
+    question: ClarifyQuestion,
+    status: ClarifyQuestion["status"],
+    answer: string | null,
+    note: string | null,
+    delivered: boolean
+  ): void {
+    const key = `${question.projectId}:${question.id}`
+    clearTimeout(this.questionTimers.get(key))
+    this.questionTimers.delete(key)
+
+    const now = new Date().toISOString()
+    try {
+      this.getDb().run(
+        `UPDATE pearbot_questions SET status = ?, answer = ?, note = ?, answered_at = ?, delivered_at = ?
+         WHERE project_id = ? AND id = ?`,
+        status, answer, note, now, delivered ? now : null, question.projectId, question.id
+      )
+    } catch (error) {
+      this.ctx.log.error(`Failed to update question ${question.id} for ${question.projectId}:`, error)
+    }
+    this.publishEvent(question.projectId, "question", { ...question, status, answer, note, answeredAt: now })
+  }
+
+  /** Match a reply against the question's options, by text or 1-based number. */
+  private resolveChoice(question: ClarifyQuestion, choice: string): string {
+    const trimmed = choice.trim()
+    if (!question.options) return trimmed
+    const byText = question.options.find((o) => o.toLowerCase() === trimmed.toLowerCase())
+    if (byText) return byText
+    const index = /^\d+$/.test(trimmed) ? Number(trimmed) - 1 : -1
+    if (index >= 0 && index < question.options.length) return question.options[index]
+    throw new ValidationError(
+      `"${choice}" is not an option for question ${question.id}; choose one of: ${question.options.map((o, i) => `${i + 1}) ${o}`).join(", ")}`
     )
-    if (!match) return null
+  }
 
-    return {
-      status: match[1] as ProjectNotification["status"],
-      phase: match[2] || undefined,
-      content: match[3].trim(),
+  /** Format answers not yet sent to the agent and mark them delivered; null if none. */
+  private takeAnswers(projectId: string): string | null {
+    const undelivered = this.getDb()
+      .query(
+        `SELECT id FROM pearbot_questions
+         WHERE project_id = ? AND status IN ('answered', 'defaulted') AND delivered_at IS NULL`
+      )
+      .all(projectId)
+      .map((row) => row.id as string)
+    if (undelivered.length === 0) return null
+
+    const questions = this.getQuestions(projectId).filter((q) => undelivered.includes(q.id))
+    const lines = questions.map((q) => {
+      const answer = q.status === "defaulted"
+        ? q.default !== null
+          ? `No reply before the deadline; go with the default "${q.default}".`
+          : "No reply before the deadline; use your best judgement."
+        : q.answer
+      return `- [${q.id}] ${q.question.split("\n")[0]}\n  Answer: ${answer}${q.note ? `\n  Note: ${q.note}` : ""}`
+    })
+
+    this.getDb().run(
+      `UPDATE pearbot_questions SET delivered_at = ?
+       WHERE project_id = ? AND status IN ('answered', 'defaulted') AND delivered_at IS NULL`,
+      new Date().toISOString(), projectId
+    )
+    return `Answers to your questions:\n${lines.join("\n")}`
+  }
+
+  /** Deadline passed without a reply: apply the default and let the agent continue. */
+  private async expireQuestion(projectId: string, questionId: string): Promise<void> {
+    this.questionTimers.delete(`${projectId}:${questionId}`)
+    const project = this.projects.get(projectId)
+    const question = project ? this.getQuestions(projectId).find((q) => q.id === questionId) : undefined
+    if (!project || !question || question.status !== "pending") return
+
+    this.closeQuestion(question, "defaulted", question.default, null, false)
+    try {
+      await this.ctx.sendClaudeMessage(
+        `<system>PEARBOT "${project.name}" (${projectId}): no reply to question ${questionId} before its deadline; ` +
+        `proceeding with ${question.default !== null ? `the default "${question.default}"` : "the builder's best judgement"}.</system>`
+      )
+    } catch {
+      // Ignore send failures
     }
+
+    const agent = this.agents.get(projectId)
+    const stillPending = this.getQuestions(projectId).some((q) => q.status === "pending")
+    if (!agent || stillPending) return
+    const answers = this.takeAnswers(projectId)
+    if (answers) await this.deliverToAgent(project, agent, answers)
   }
 
   // ── Private: Notification Forwarding ────────────────────────
@@ -580,17 +2012,34 @@ export class PearBotManager extends EventEmitter {
     const project = this.projects.get(projectId)
     const projectLabel = project ? `"${project.name}" (${projectId})` : projectId
 
+    if (notification.status === "progress") {
+      if (!this.shouldForwardProgress(project, notification)) return
+    } else if (notification.status !== "stalled") {
+      // Held progress is stale once a question or a final result arrives
+      this.progressThrottle.discard(projectId)
+    }
+
     try {
       switch (notification.status) {
-        case "clarify":
-          await this.ctx.sendClaudeMessage(
-            `<system>PEARBOT ${projectLabel} needs input: ${notification.content}\nUse the pearbot_reply tool with project_id="${projectId}" to respond.</system>`
-          )
+        case "clarify": {
+          const lines = [`PEARBOT ${projectLabel} needs input: ${notification.content}`]
+          if (notification.options) {
+            lines.push(`Options: ${notification.options.map((o, i) => `${i + 1}) ${o}`).join("  ")}`)
+          }
+          if (notification.default !== undefined) {
+            lines.push(`Default: ${notification.default}${notification.deadline ? ` (applied automatically at ${notification.deadline} if there is no reply)` : ""}`)
+          } else if (notification.deadline) {
+            lines.push(`If there is no reply by ${notification.deadline}, the builder will proceed on its own.`)
+          }
+          const target = `project_id="${projectId}"${notification.questionId ? ` question_id="${notification.questionId}"` : ""}`
+          lines.push(`Use the pearbot_reply tool with ${target}${notification.options ? " and a choice" : ""} to respond.`)
+          await this.ctx.sendClaudeMessage(`<system>${lines.join("\n")}</system>`)
           break
+        }
 
         case "progress":
           await this.ctx.sendClaudeMessage(
-            `<system>PEARBOT ${projectLabel} progress${notification.phase ? ` [${notification.phase}]` : ""}: ${notification.content}</system>`
+            `<system>PEARBOT ${projectLabel} progress${progressTags(notification)}: ${notification.content}</system>`
           )
           break
 
@@ -605,14 +2054,56 @@ export class PearBotManager extends EventEmitter {
             `<system>PEARBOT ${projectLabel} failed: ${notification.content}</system>`
           )
           break
+
+        case "stalled":
+          await this.ctx.sendClaudeMessage(
+            `<system>PEARBOT ${projectLabel} looks stalled: ${notification.content}\nUse pearbot_extend with project_id="${projectId}" to give it more time, or pearbot_stop to end it.</system>`
+          )
+          break
       }
     } catch (error) {
       this.ctx.log.error(`Failed to forward notification for ${projectId}:`, error)
     }
   }
 
+  /**
+   * Apply the project's verbosity, then the rate limits. Updates over the
+   * limits are held by the throttle and go out in the next digest.
+   */
+  private shouldForwardProgress(project: ProjectMetadata | undefined, notification: ProjectNotification): boolean {
+    if (!project) return false
+    const previousPhase = this.lastPhases.get(project.id)
+    if (notification.phase) this.lastPhases.set(project.id, notification.phase)
+
+    if (project.verbosity === "final-only") return false
+    if (project.verbosity === "milestones" && (!notification.phase || notification.phase === previousPhase)) return false
+    return this.progressThrottle.admit(project.id, notification)
+  }
+
+  private async sendDigest(entries: DigestEntry[]): Promise<void> {
+    const lines = entries.map(({ projectId, latest, coalesced, phases }) => {
+      const project = this.projects.get(projectId)
+      const label = project ? `"${project.name}" (${projectId})` : projectId
+      const passed = phases.length > 1 ? ` (phases: ${phases.join(" → ")})` : ""
+      const more = coalesced > 0 ? ` (+${coalesced} earlier update${coalesced === 1 ? "" : "s"})` : ""
+      return `- ${label}${progressTags(latest)}: ${latest.content.split("\n")[0].substring(0, 200)}${passed}${more}`
+    })
+    try {
+      await this.ctx.sendClaudeMessage(`<system>PEARBOT progress digest:\n${lines.join("\n")}</system>`)
+    } catch (error) {
+      this.ctx.log.error("Failed to send progress digest:", error)
+    }
+  }
+
   // ── Private: Intervals ──────────────────────────────────────
 
+  private startDigestInterval(): void {
+    this.digestInterval = setInterval(() => {
+      const entries = this.progressThrottle.drain()
+      if (entries.length > 0) this.sendDigest(entries)
+    }, this.progressDigestIntervalMs)
+  }
+
   private startReminderInterval(): void {
     this.reminderInterval = setInterval(async () => {
       const waiting = Array.from(this.projects.values()).filter(
@@ -634,63 +2125,705 @@ export class PearBotManager extends EventEmitter {
   }
 
   private startCleanupInterval(): void {
-    this.cleanupInterval = setInterval(() => {
-      for (const [id, project] of this.projects) {
-        if (
-          (project.status === "completed" || project.status === "failed" || project.status === "stopped") &&
-          Date.now() - new Date(project.updatedAt).getTime() > COMPLETED_CLEANUP_MS
-        ) {
-          // Don't delete from disk, just remove from memory
-        }
+    this.cleanupInterval = setInterval(async () => {
+      this.pruneExports()
+      if (this.autoArchiveAfterDays <= 0 && this.autoDeleteFailedAfterDays <= 0) return
+      const report = await this.applyRetention(false)
+      if (report.actions.length > 0) {
+        this.ctx.log.info(`Retention: ${report.actions.map((a) => `${a.action} ${a.projectId}`).join(", ")}`)
       }
-    }, COMPLETED_CLEANUP_MS)
+    }, RETENTION_CHECK_INTERVAL_MS)
   }
 
   private startStalledCheckInterval(): void {
     this.stalledCheckInterval = setInterval(() => {
       const now = Date.now()
       for (const [id, project] of this.projects) {
-        if (
-          (project.status === "building" || project.status === "creating") &&
-          this.agentProcesses.has(id)
-        ) {
-          const runtime = now - new Date(project.createdAt).getTime()
-          if (runtime > STALLED_AGENT_TIMEOUT_MS) {
-            this.ctx.log.warn(`Agent for ${id} stalled (${Math.round(runtime / 60000)} min), killing`)
-            this.killAgentProcess(id)
-            project.status = "failed"
-            project.lastNotification = {
-              status: "failed",
-              content: "Agent timed out after 1 hour",
-            }
-            project.updatedAt = new Date().toISOString()
-            this.saveProject(project)
-            this.emit("notification", {
-              projectId: id,
-              notification: project.lastNotification,
-            })
-          }
+        const run = this.agentRuns.get(id)
+        if (!run || !this.agents.has(id)) continue
+        // Waiting on the user or on verification is not a stall
+        if (project.status !== "building" && project.status !== "creating") continue
+
+        const stall = this.stallDeadline(run)
+        if (!stall) continue
+
+        if (now >= stall.deadline) {
+          const content = stall.reason === "idle"
+            ? `Agent stopped: no output for ${Math.round((now - run.lastActivityAt) / MINUTE_MS)} min`
+            : `Agent stopped: exceeded the ${Math.round((this.agentRunTimeoutMs + run.extensionMs) / MINUTE_MS)} min run limit`
+          this.ctx.log.warn(`Agent for ${id} stalled (${stall.reason}), killing`)
+          this.publishEvent(id, "agent", { state: "killed", reason: stall.reason })
+          this.killAgentProcess(id)
+          project.status = "failed"
+          project.lastNotification = { status: "failed", content }
+          project.updatedAt = new Date().toISOString()
+          this.saveProject(project)
+          this.emit("notification", { projectId: id, notification: project.lastNotification })
+        } else if (!run.stallWarned && now >= stall.warnAt) {
+          run.stallWarned = true
+          const minutesLeft = Math.max(1, Math.ceil((stall.deadline - now) / MINUTE_MS))
+          const content = stall.reason === "idle"
+            ? `No agent output for ${Math.round((now - run.lastActivityAt) / MINUTE_MS)} min. It will be stopped in ${minutesLeft} min unless it resumes.`
+            : `The agent is approaching its run limit and will be stopped in ${minutesLeft} min.`
+          this.publishEvent(id, "agent", { state: "stalled", reason: stall.reason, deadline: new Date(stall.deadline).toISOString() })
+          this.emit("notification", { projectId: id, notification: { status: "stalled", content } })
         }
       }
-    }, 5 * 60 * 1000)
+    }, this.stallCheckIntervalMs)
+  }
+
+  /**
+   * The earlier of the idle and run-time deadlines for a run (either timeout
+   * can be disabled with 0), and when to warn ahead of it.
+   */
+  private stallDeadline(run: AgentRun): { deadline: number; warnAt: number; reason: "idle" | "runtime" } | null {
+    const candidates: { deadline: number; timeout: number; reason: "idle" | "runtime" }[] = []
+    if (this.agentIdleTimeoutMs > 0) {
+      candidates.push({
+        deadline: run.lastActivityAt + this.agentIdleTimeoutMs + run.extensionMs,
+        timeout: this.agentIdleTimeoutMs,
+        reason: "idle",
+      })
+    }
+    if (this.agentRunTimeoutMs > 0) {
+      candidates.push({
+        deadline: run.workStartedAt + this.agentRunTimeoutMs + run.extensionMs,
+        timeout: this.agentRunTimeoutMs,
+        reason: "runtime",
+      })
+    }
+    if (candidates.length === 0) return null
+
+    const first = candidates.reduce((a, b) => (b.deadline < a.deadline ? b : a))
+    const lead = Math.min(STALL_WARNING_LEAD_MS, first.timeout / 2)
+    return { deadline: first.deadline, warnAt: first.deadline - lead, reason: first.reason }
+  }
+
+  /** Record agent activity; clears any pending stall warning. */
+  private touchAgent(projectId: string): void {
+    const run = this.agentRuns.get(projectId)
+    if (!run) return
+    run.lastActivityAt = Date.now()
+    if (run.stallWarned) {
+      run.stallWarned = false
+      this.publishEvent(projectId, "agent", { state: "resumed" })
+    }
+  }
+
+  // ── Private: Verification ───────────────────────────────────
+
+  /**
+   * Run the project's install/build/test steps after the agent reports
+   * success, then release the held-back notification: success if they pass,
+   * otherwise a failure (or the output goes back to the agent for a retry).
+   */
+  private async runVerification(projectId: string): Promise<void> {
+    const project = this.projects.get(projectId)
+    const notification = this.pendingSuccess.get(projectId)
+    if (!project || !notification) return
+    this.pendingSuccess.delete(projectId)
+
+    // Wait for the agent's last writes to be checkpointed before building
+    await this.checkpointChains.get(projectId)
+
+    const root = this.findProjectRoot(project.directory)
+    const record: VerificationRecord = {
+      status: "running",
+      attempt: (this.verificationRetries.get(projectId) ?? 0) + 1,
+      directory: root,
+      steps: [],
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+    }
+    project.verification = record
+    this.saveProject(project)
+    this.publishEvent(projectId, "verification", { state: "started", attempt: record.attempt })
+
+    let failed: VerificationRecord["steps"][number] | null = null
+    for (const planned of detectVerificationSteps(root)) {
+      const step = await runVerificationStep(root, planned, this.verifyStepTimeoutMs, (proc) => {
+        this.verificationProcs.set(projectId, proc)
+      }, this.sandbox, this.projectEnv.values(projectId))
+      step.output = this.projectEnv.redact(projectId, step.output)
+      this.verificationProcs.delete(projectId)
+      // Stopped, deleted or re-tasked while the step ran
+      if (record.status !== "running" || project.status !== "verifying" || project.verification !== record) return
+
+      record.steps.push(step)
+      this.saveProject(project)
+      this.publishEvent(projectId, "verification", {
+        state: "step",
+        step: step.name,
+        command: step.command,
+        exitCode: step.exitCode,
+        timedOut: step.timedOut,
+      })
+      if (step.exitCode !== 0) {
+        failed = step
+        break
+      }
+    }
+
+    record.status = failed ? "failed" : record.steps.length > 0 ? "passed" : "skipped"
+    record.finishedAt = new Date().toISOString()
+    project.updatedAt = record.finishedAt
+    this.publishEvent(projectId, "verification", { state: record.status, attempt: record.attempt })
+
+    if (!failed) {
+      this.verificationRetries.delete(projectId)
+      const summary = record.steps.length > 0
+        ? `Verified by PearBot: ${record.steps.map((s) => `${s.name} ✓`).join(", ")}`
+        : "No install, build or test commands found to verify."
+      project.status = "completed"
+      project.lastNotification = { ...notification, content: `${notification.content}\n\n${summary}` }
+      this.saveProject(project)
+      this.emit("notification", { projectId, notification: project.lastNotification })
+      return
+    }
+
+    const outcome = failed.timedOut
+      ? `\`${failed.command}\` timed out after ${this.verifyStepTimeoutMs / 1000}s`
+      : `\`${failed.command}\` exited with code ${failed.exitCode}`
+    const output = failed.output.slice(-VERIFICATION_FEEDBACK_CHARS).trim()
+
+    if (record.attempt <= this.verifyRetryAttempts && this.agents.has(projectId)) {
+      this.verificationRetries.set(projectId, record.attempt)
+      this.saveProject(project)
+      try {
+        await this.sendToProject(
+          projectId,
+          [
+            `PearBot verification failed: ${outcome} in ${root}.`,
+            "",
+            "```",
+            output,
+            "```",
+            "",
+            "Fix the problem, then report success again.",
+          ].join("\n")
+        )
+        this.emit("notification", {
+          projectId,
+          notification: {
+            status: "progress",
+            content: `Verification failed (${failed.name}); sent the output back to the agent (retry ${record.attempt} of ${this.verifyRetryAttempts}).`,
+          },
+        })
+        return
+      } catch (error) {
+        this.ctx.log.warn(`Could not hand verification failure back to ${projectId}:`, error)
+      }
+    }
+
+    this.verificationRetries.delete(projectId)
+    project.status = "failed"
+    project.lastNotification = {
+      status: "failed",
+      content: `The agent reported success, but verification failed: ${outcome}.\n\n${output}`,
+    }
+    this.saveProject(project)
+    this.emit("notification", { projectId, notification: project.lastNotification })
+  }
+
+  private cancelVerification(projectId: string): void {
+    this.pendingSuccess.delete(projectId)
+    const proc = this.verificationProcs.get(projectId)
+    if (proc) {
+      try { proc.kill() } catch { /* Already dead */ }
+      this.verificationProcs.delete(projectId)
+    }
+    const project = this.projects.get(projectId)
+    if (project?.verification?.status === "running") {
+      project.verification.status = "cancelled"
+      project.verification.finishedAt = new Date().toISOString()
+    }
+  }
+
+  // ── Private: Dev Server ──────────────────────────────────────
+
+  /**
+   * Poll the port until it answers any HTTP response. Resolves "ready",
+   * "timeout", or the exit code if the process dies first.
+   */
+  private async waitForServerReady(
+    port: number,
+    exited: Promise<number>
+  ): Promise<"ready" | "timeout" | { exitCode: number }> {
+    let exitCode: number | null = null
+    exited.then((code) => { exitCode = code })
+
+    const deadline = Date.now() + this.serveReadyTimeoutMs
+    while (Date.now() < deadline) {
+      if (exitCode !== null) return { exitCode }
+      try {
+        await fetch(`http://127.0.0.1:${port}/`, {
+          redirect: "manual",
+          signal: AbortSignal.timeout(READY_REQUEST_TIMEOUT_MS),
+        })
+        return "ready"
+      } catch { /* Not listening yet */ }
+      await new Promise((resolve) => setTimeout(resolve, READY_POLL_INTERVAL_MS))
+    }
+    return exitCode !== null ? { exitCode } : "timeout"
+  }
+
+  private serverLogPath(projectId: string): string {
+    return join(this.projectsDir, "logs", `${projectId}-server.log`)
+  }
+
+  /** The agent CLI's config and session directory for a project, outside every project directory. */
+  private agentConfigDir(projectId: string): string {
+    return join(this.dataDir, "agents", projectId)
+  }
+
+  /** The project's checkpoint git directory, out of its agents' reach. */
+  private checkpointDir(projectId: string): string {
+    return join(this.dataDir, "repos", projectId)
+  }
+
+  private checkpointRepo(project: ProjectMetadata): CheckpointRepo {
+    return { gitDir: this.checkpointDir(project.id), workTree: project.directory }
+  }
+
+  private openServerLog(projectId: string, cmd: string, port: number): WriteStream | null {
+    try {
+      mkdirSync(join(this.projectsDir, "logs"), { recursive: true })
+      const stream = createWriteStream(this.serverLogPath(projectId), { flags: "a" })
+      stream.write(`\n[pearbot] ${new Date().toISOString()} starting "${cmd}" on port ${port}\n`)
+      return stream
+    } catch (error) {
+      this.ctx.log.warn(`Could not open server log for ${projectId}:`, error)
+      return null
+    }
+  }
+
+  private async pumpServerOutput(
+    projectId: string,
+    output: ReadableStream<Uint8Array>,
+    logFile: WriteStream | null
+  ): Promise<void> {
+    const decoder = new TextDecoder()
+    let pending = ""
+    try {
+      for await (const chunk of output) {
+        pending += decoder.decode(chunk, { stream: true })
+        const lines = pending.split("\n")
+        pending = lines.pop() || ""
+        for (const line of lines) this.appendServerLog(projectId, line, logFile)
+      }
+      if (pending) this.appendServerLog(projectId, pending, logFile)
+    } catch (error) {
+      this.ctx.log.error(`Error reading dev server output for ${projectId}:`, error)
+    }
+  }
+
+  private appendServerLog(projectId: string, line: string, logFile: WriteStream | null): void {
+    // Strip ANSI colour codes; dev servers love them
+    const clean = this.projectEnv.redact(projectId, line.replace(/\x1b\[[0-9;]*[A-Za-z]/g, "").replace(/\r/g, ""))
+    const ring = this.serverLogs.get(projectId) ?? []
+    ring.push(clean)
+    if (ring.length > SERVER_LOG_RING_SIZE) ring.splice(0, ring.length - SERVER_LOG_RING_SIZE)
+    this.serverLogs.set(projectId, ring)
+    logFile?.write(clean + "\n")
   }
 
   // ── Private: Helpers ────────────────────────────────────────
 
-  private getRunningCount(): number {
-    let count = 0
+  /** A JSON-like value with the project's secrets redacted from every string in it. */
+  /**
+   * Redact every string in a JSON-like value. This must happen before it is
+   * serialized: escaping would hide a secret containing `"` or `\`.
+   */
+  private redactValue<T>(projectId: string, value: T): T {
+    if (typeof value === "string") return this.projectEnv.redact(projectId, value) as T
+    if (Array.isArray(value)) return value.map((item: unknown) => this.redactValue(projectId, item)) as T
+    if (isRecord(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [this.projectEnv.redact(projectId, key), this.redactValue(projectId, item)])
+      ) as T
+    }
+    return value
+  }
+
+  private assertNotArchived(project: ProjectMetadata): void {
+    if (project.status === "archived") {
+      throw new ConflictError(`Project ${project.id} is archived (${project.archivePath})`)
+    }
+  }
+
+  private planRemoval(project: ProjectMetadata, action: RemovalPlan["action"], reason: string | null): RemovalPlan {
+    return {
+      projectId: project.id,
+      name: project.name,
+      status: project.status,
+      action,
+      directory: project.directory,
+      sizeBytes: this.directorySize(project.directory),
+      stopsAgent: this.agents.has(project.id),
+      stopsServer: this.serverProcesses.has(project.id),
+      reason,
+      archivePath: action === "archive" ? join(this.projectsDir, "archive", `${project.id}.tar.gz`) : project.archivePath,
+    }
+  }
+
+  /** Delete export files older than `exportRetentionHours` (0 keeps them). */
+  private pruneExports(): void {
+    if (this.exportRetentionHours <= 0) return
+    const cutoff = Date.now() - this.exportRetentionHours * 60 * MINUTE_MS
+    this.removeExports((_name, mtimeMs) => mtimeMs < cutoff)
+  }
+
+  private removeExports(match: (name: string, mtimeMs: number) => boolean): void {
+    let names: string[]
+    try {
+      names = readdirSync(this.exportsDir)
+    } catch {
+      return // No exports yet
+    }
+    for (const name of names) {
+      const path = join(this.exportsDir, name)
+      try {
+        if (match(name, statSync(path).mtimeMs)) rmSync(path, { force: true })
+      } catch (error) {
+        this.ctx.log.warn(`Failed to remove export ${path}:`, error)
+      }
+    }
+  }
+
+  private directorySize(dir: string): number {
+    let total = 0
+    try {
+      for (const entry of readdirSync(dir)) {
+        const fullPath = join(dir, entry)
+        try {
+          const stat = lstatSync(fullPath)
+          total += stat.isDirectory() ? this.directorySize(fullPath) : stat.size
+        } catch { /* Skip inaccessible files */ }
+      }
+    } catch { /* Directory doesn't exist or inaccessible */ }
+    return total
+  }
+
+  /** rm -rf, but only for directories inside projectsDir. */
+  private removeProjectDirectory(directory: string): void {
+    const target = resolve(directory)
+    if (!target.startsWith(this.projectsDir + sep)) {
+      throw new Error(`Refusing to remove ${directory}: outside the projects directory`)
+    }
+    rmSync(target, { recursive: true, force: true })
+  }
+
+  private getRunningCount(excludeProjectId?: string): number {
+    let running = 0
     for (const p of this.projects.values()) {
-      if (p.status === "building" || p.status === "creating") count++
+      if (p.id === excludeProjectId) continue
+      if (p.status === "building" || p.status === "creating" || p.status === "verifying") running++
+    }
+    return running
+  }
+
+  private enqueueBuild(
+    project: ProjectMetadata,
+    kind: QueuedBuild["kind"],
+    prompt: string,
+    fresh = false
+  ): void {
+    const existing = this.buildQueue.find((job) => job.projectId === project.id)
+    if (existing) {
+      // Re-queuing keeps the project's place in line but takes the latest task
+      existing.kind = kind
+      existing.prompt = prompt
+      existing.fresh = fresh
+    } else {
+      this.buildQueue.push({ projectId: project.id, kind, prompt, fresh, enqueuedAt: new Date().toISOString() })
+    }
+    this.persistQueue()
+
+    project.status = "queued"
+    project.updatedAt = new Date().toISOString()
+    this.saveProject(project)
+  }
+
+  private dequeueBuild(projectId: string): boolean {
+    const index = this.buildQueue.findIndex((job) => job.projectId === projectId)
+    if (index === -1) return false
+    this.buildQueue.splice(index, 1)
+    this.persistQueue()
+    return true
+  }
+
+  /** Start queued builds while there are free slots. */
+  private processQueue(): void {
+    if (this.isGlobalBudgetExhausted()) return
+    while (this.buildQueue.length > 0 && this.getRunningCount() < this.maxConcurrentBuilds) {
+      const job = this.buildQueue.shift()!
+      this.persistQueue()
+
+      const project = this.projects.get(job.projectId)
+      if (!project || project.status !== "queued") continue
+
+      this.ctx.log.info(`Starting queued ${job.kind} for project ${job.projectId}`)
+      project.status = job.kind === "create" ? "creating" : "building"
+      project.updatedAt = new Date().toISOString()
+      this.saveProject(project)
+
+      this.ctx.sendClaudeMessage(
+        `<system>PEARBOT "${project.name}" (${project.id}) left the build queue and is now ${project.status}.</system>`
+      ).catch(() => { /* Ignore send failures */ })
+
+      const start = job.kind === "create"
+        ? this.spawnAgent(job.projectId, job.prompt)
+        : this.startOpenTask(project, job.prompt, job.fresh)
+      start.catch((error) => {
+        this.ctx.log.error(`Failed to start queued build for ${job.projectId}:`, error)
+        project.status = "failed"
+        project.updatedAt = new Date().toISOString()
+        this.saveProject(project)
+      })
+    }
+  }
+
+  /** Commit the project's current files. Failures are logged, never thrown. */
+  private checkpoint(projectId: string, message: string): Promise<string | null> {
+    const project = this.projects.get(projectId)
+    if (!project || !existsSync(project.directory)) return Promise.resolve(null)
+
+    return this.enqueueCheckpointWork(projectId, async () => {
+      const repo = this.checkpointRepo(project)
+      await ensureRepo(repo, SKIP_DIRS)
+      const hash = await commitAll(repo, message)
+      if (hash) this.publishEvent(projectId, "checkpoint", { hash, message })
+      return hash
+    }).catch((error) => {
+      this.ctx.log.warn(`Checkpoint failed for ${projectId}:`, error)
+      return null
+    })
+  }
+
+  /** Serialize git operations per project so commits never interleave. */
+  private enqueueCheckpointWork<T>(projectId: string, work: () => Promise<T>): Promise<T> {
+    const previous = this.checkpointChains.get(projectId) ?? Promise.resolve()
+    const next = previous.catch(() => {}).then(work)
+    this.checkpointChains.set(projectId, next.catch(() => {}))
+    return next
+  }
+
+  // ── Private: Usage Accounting ───────────────────────────────
+
+  private startRunRecord(projectId: string): number | null {
+    try {
+      const db = this.getDb()
+      db.run("INSERT INTO pearbot_runs (project_id, started_at) VALUES (?, ?)", projectId, new Date().toISOString())
+      const row = db.query("SELECT last_insert_rowid() AS id").get()
+      return (row?.id as number) ?? null
+    } catch (error) {
+      this.ctx.log.error(`Failed to record run for ${projectId}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Fold a stream-json `result` message into the current run and the project
+   * totals, then enforce budgets. Token counts and turns are per result;
+   * `total_cost_usd` is cumulative for the process, so only the delta is added.
+   */
+  private recordUsage(projectId: string, message: AgentMessage): void {
+    const run = this.agentRuns.get(projectId)
+    const project = this.projects.get(projectId)
+    if (!run || !project) return
+
+    const usage = isRecord(message.usage) ? message.usage : {}
+    const costTotal = typeof message.total_cost_usd === "number" ? message.total_cost_usd : run.lastCostTotal
+    const delta: UsageTotals = {
+      inputTokens: count(usage.input_tokens),
+      outputTokens: count(usage.output_tokens),
+      cacheReadTokens: count(usage.cache_read_input_tokens),
+      cacheCreationTokens: count(usage.cache_creation_input_tokens),
+      costUsd: Math.max(costTotal - run.lastCostTotal, 0),
+      turns: count(message.num_turns),
+      wallClockMs: 0,
+    }
+    run.lastCostTotal = Math.max(costTotal, run.lastCostTotal)
+
+    for (const key of Object.keys(delta) as (keyof UsageTotals)[]) {
+      run.usage[key] += delta[key]
+      project.usage[key] += delta[key]
+    }
+    this.saveRunRecord(run, null)
+    this.saveProject(project)
+    this.publishEvent(projectId, "usage", { ...project.usage, budgetUsd: project.budgetUsd })
+
+    this.enforceBudgets(project)
+  }
+
+  private enforceBudgets(project: ProjectMetadata): void {
+    // Finished projects can't spend more; don't turn a success into a failure
+    if (this.isWorking(project) && project.budgetUsd && project.usage.costUsd >= project.budgetUsd) {
+      this.stopForBudget(
+        project,
+        `Budget exceeded: spent $${project.usage.costUsd.toFixed(2)} of the $${project.budgetUsd.toFixed(2)} project budget. Raise it with pearbot_budget and reopen the project to continue.`
+      )
+      return
+    }
+
+    if (this.isGlobalBudgetExhausted()) {
+      const reason = `Global monthly budget exhausted: $${this.monthlySpend().toFixed(2)} of $${this.globalMonthlyBudgetUsd.toFixed(2)} spent across all projects.`
+      for (const id of Array.from(this.agents.keys())) {
+        const p = this.projects.get(id)
+        if (p && this.isWorking(p)) this.stopForBudget(p, reason)
+      }
+    }
+  }
+
+  private isWorking(project: ProjectMetadata): boolean {
+    return ["building", "creating", "waiting_for_input", "verifying"].includes(project.status)
+  }
+
+  private stopForBudget(project: ProjectMetadata, reason: string): void {
+    this.ctx.log.warn(`Stopping agent for ${project.id}: ${reason}`)
+    this.killAgentProcess(project.id)
+    project.status = "failed"
+    project.waitingSince = null
+    project.lastNotification = { status: "failed", content: reason }
+    project.updatedAt = new Date().toISOString()
+    this.saveProject(project)
+    this.emit("notification", { projectId: project.id, notification: project.lastNotification })
+  }
+
+  /** Close out the project's current run (if any) and return it. */
+  private finishRun(projectId: string, exitCode: number | null): AgentRun | undefined {
+    const run = this.agentRuns.get(projectId)
+    if (!run) return undefined
+    this.agentRuns.delete(projectId)
+    this.notificationParsers.delete(projectId)
+    if (this.projects.has(projectId)) {
+      for (const question of this.getQuestions(projectId).filter((q) => q.status === "pending")) {
+        this.closeQuestion(question, "cancelled", null, null, false)
+      }
+    }
+    this.abandonPendingActivity(projectId)
+
+    run.usage.wallClockMs = Date.now() - run.startedAt
+    this.saveRunRecord(run, exitCode)
+
+    const project = this.projects.get(projectId)
+    if (project) {
+      project.usage.wallClockMs += run.usage.wallClockMs
+      this.saveProject(project)
+    }
+    return run
+  }
+
+  private saveRunRecord(run: AgentRun, exitCode: number | null): void {
+    if (run.runId === null) return
+    const ended = run.usage.wallClockMs > 0
+    try {
+      this.getDb().run(
+        `UPDATE pearbot_runs SET
+           input_tokens = ?, output_tokens = ?, cache_read_tokens = ?, cache_creation_tokens = ?,
+           cost_usd = ?, turns = ?, wall_clock_ms = ?, ended_at = ?, exit_code = ?
+         WHERE id = ?`,
+        run.usage.inputTokens, run.usage.outputTokens, run.usage.cacheReadTokens, run.usage.cacheCreationTokens,
+        run.usage.costUsd, run.usage.turns, run.usage.wallClockMs,
+        ended ? new Date().toISOString() : null, exitCode, run.runId
+      )
+    } catch (error) {
+      this.ctx.log.error(`Failed to save run ${run.runId}:`, error)
+    }
+  }
+
+  private loadUsageTotals(projectId: string): UsageTotals {
+    const row = this.getDb()
+      .query(
+        `SELECT SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens,
+                SUM(cache_read_tokens) AS cache_read_tokens, SUM(cache_creation_tokens) AS cache_creation_tokens,
+                SUM(cost_usd) AS cost_usd, SUM(turns) AS turns, SUM(wall_clock_ms) AS wall_clock_ms
+         FROM pearbot_runs WHERE project_id = ?`
+      )
+      .get(projectId)
+    return {
+      inputTokens: (row?.input_tokens as number) || 0,
+      outputTokens: (row?.output_tokens as number) || 0,
+      cacheReadTokens: (row?.cache_read_tokens as number) || 0,
+      cacheCreationTokens: (row?.cache_creation_tokens as number) || 0,
+      costUsd: (row?.cost_usd as number) || 0,
+      turns: (row?.turns as number) || 0,
+      wallClockMs: (row?.wall_clock_ms as number) || 0,
+    }
+  }
+
+  /** Spend across all projects since the start of the current UTC month. */
+  private monthlySpend(): number {
+    const now = new Date()
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString()
+    try {
+      const row = this.getDb()
+        .query("SELECT SUM(cost_usd) AS total FROM pearbot_runs WHERE started_at >= ?")
+        .get(monthStart)
+      return (row?.total as number) || 0
+    } catch {
+      return 0
+    }
+  }
+
+  private isGlobalBudgetExhausted(): boolean {
+    return this.globalMonthlyBudgetUsd > 0 && this.monthlySpend() >= this.globalMonthlyBudgetUsd
+  }
+
+  private assertGlobalBudgetAvailable(): void {
+    if (this.isGlobalBudgetExhausted()) {
+      throw new BudgetError(
+        `Global monthly budget of $${this.globalMonthlyBudgetUsd.toFixed(2)} is exhausted. Raise globalMonthlyBudgetUsd to start new builds.`
+      )
+    }
+  }
+
+  private assertProjectBudgetAvailable(project: ProjectMetadata): void {
+    if (project.budgetUsd && project.usage.costUsd >= project.budgetUsd) {
+      throw new BudgetError(
+        `Project ${project.id} has spent its $${project.budgetUsd.toFixed(2)} budget. Raise it with pearbot_budget first.`
+      )
+    }
+  }
+
+  private recordSession(projectId: string, sessionId: string, run: AgentRun): void {
+    try {
+      // A fallback session forks from the session whose resume failed
+      const parent = run.resumedFrom ?? (run.mode === "fallback" ? this.projects.get(projectId)?.sessionId ?? null : null)
+      this.getDb().run(
+        `INSERT INTO pearbot_sessions (project_id, session_id, parent_session_id, mode, started_at)
+         VALUES (?, ?, ?, ?, ?)`,
+        projectId, sessionId, parent, run.mode, new Date().toISOString()
+      )
+    } catch (error) {
+      this.ctx.log.error(`Failed to record session for ${projectId}:`, error)
+    }
+  }
+
+  private persistQueue(): void {
+    try {
+      const db = this.getDb()
+      db.run("DELETE FROM pearbot_queue")
+      this.buildQueue.forEach((job, i) => {
+        db.run(
+          `INSERT INTO pearbot_queue (project_id, kind, prompt, position, enqueued_at, fresh)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          job.projectId, job.kind, job.prompt, i, job.enqueuedAt, job.fresh ? 1 : 0
+        )
+      })
+    } catch (error) {
+      this.ctx.log.error("Failed to persist build queue:", error)
     }
-    return count
   }
 
   private killAgentProcess(projectId: string): void {
-    const proc = this.agentProcesses.get(projectId)
-    if (proc) {
-      try { proc.kill() } catch { /* Already dead */ }
-      this.agentProcesses.delete(projectId)
+    const agent = this.agents.get(projectId)
+    if (agent) {
+      try { agent.kill() } catch { /* Already dead */ }
+      this.agents.delete(projectId)
     }
+    this.finishRun(projectId, null)
+    this.cancelVerification(projectId)
     const project = this.projects.get(projectId)
     if (project) project.agentProcess = null
   }
@@ -700,6 +2833,7 @@ export class PearBotManager extends EventEmitter {
     if (proc) {
       try { proc.kill() } catch { /* Already dead */ }
       this.serverProcesses.delete(projectId)
+      this.publishEvent(projectId, "server", { state: "stopped" })
     }
     const project = this.projects.get(projectId)
     if (project) {
@@ -707,6 +2841,7 @@ export class PearBotManager extends EventEmitter {
       project.servingPort = null
       project.serverProcess = null
     }
+    this.serverBasePaths.delete(projectId)
   }
 
   private async findAvailablePort(): Promise<number> {
@@ -715,7 +2850,7 @@ export class PearBotManager extends EventEmitter {
       const available = await this.testPort(port)
       if (available) return port
     }
-    throw new Error(`No available ports in range ${this.portRangeStart}-${this.portRangeEnd}`)
+    throw new UnavailableError(`No available ports in range ${this.portRangeStart}-${this.portRangeEnd}`)
   }
 
   private testPort(port: number): Promise<boolean> {
@@ -749,48 +2884,117 @@ export class PearBotManager extends EventEmitter {
     return directory
   }
 
-  private detectServeCommand(directory: string): string {
-    const bindAll = this.publicHost ? true : false
+  /**
+   * Dev servers listen on every interface only for direct access through
+   * `publicHost`; behind the preview proxy they stay on loopback.
+   */
+  private bindsAllInterfaces(): boolean {
+    return Boolean(this.publicHost) && !this.previewBaseUrl
+  }
+
+  /**
+   * Guess the serve command. `basePath` is the public path the preview proxy
+   * serves the project under; it is passed to frameworks that accept one on
+   * the command line and echoed back when it was.
+   */
+  private detectServeCommand(
+    directory: string,
+    port: number,
+    basePath: string | null
+  ): { command: string; basePath: string | null } {
+    const host = this.bindsAllInterfaces() ? "0.0.0.0" : "127.0.0.1"
     const pkgPath = join(directory, "package.json")
     if (existsSync(pkgPath)) {
       try {
         const pkg = JSON.parse(readFileSync(pkgPath, "utf-8"))
-        // Detect Next.js
-        const isNext = pkg.dependencies?.next || pkg.devDependencies?.next
-        const hostFlag = bindAll ? (isNext ? " -- --hostname 0.0.0.0" : "") : ""
-        if (pkg.scripts?.dev) return `npm run dev${hostFlag}`
-        if (pkg.scripts?.start) return `npm start${hostFlag}`
-        if (pkg.scripts?.serve) return `npm run serve${hostFlag}`
+        const deps = { ...pkg.dependencies, ...pkg.devDependencies }
+        let flags = ""
+        let appliedBase: string | null = null
+        if (deps.next) {
+          flags = ` -- --hostname ${host}`
+        } else if (deps.vite) {
+          flags = ` -- --host ${host}`
+          if (basePath) {
+            flags += ` --base ${basePath}`
+            appliedBase = basePath
+          }
+        }
+        if (pkg.scripts?.dev) return { command: `npm run dev${flags}`, basePath: appliedBase }
+        if (pkg.scripts?.start) return { command: `npm start${flags}`, basePath: appliedBase }
+        if (pkg.scripts?.serve) return { command: `npm run serve${flags}`, basePath: appliedBase }
       } catch { /* Fall through */ }
     }
     if (existsSync(join(directory, "manage.py"))) {
-      return bindAll ? "python manage.py runserver 0.0.0.0" : "python manage.py runserver"
+      return { command: `python manage.py runserver ${host}:${port}`, basePath: null }
     }
     if (existsSync(join(directory, "app.py"))) {
-      return bindAll ? "python app.py --host 0.0.0.0" : "python app.py"
+      return { command: `python app.py --host ${host}`, basePath: null }
     }
-    return "npm start"
+    return { command: "npm start", basePath: null }
   }
 
   private saveProject(project: ProjectMetadata): void {
+    const previous = this.knownStatus.get(project.id)
+    if (previous !== project.status) {
+      this.knownStatus.set(project.id, project.status)
+      this.publishEvent(project.id, "status", { from: previous ?? null, to: project.status })
+    }
+
     try {
-      const db = this.ctx.getDb() as { run: (sql: string, ...params: unknown[]) => void }
-      db.run(
+      this.getDb().run(
         `INSERT OR REPLACE INTO pearbot_projects
-         (id, name, description, tech_stack, status, directory, serving_port, session_id, created_at, updated_at, waiting_since, last_notification_json)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+         (id, name, description, tech_stack, status, directory, serving_port, session_id, created_at, updated_at, waiting_since, last_notification_json, archive_path, budget_usd, verification_json, verbosity, agent_policy_json)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         project.id, project.name, project.description, project.techStack,
         project.status, project.directory, project.servingPort, project.sessionId,
         project.createdAt, project.updatedAt, project.waitingSince,
-        project.lastNotification ? JSON.stringify(project.lastNotification) : null
+        project.lastNotification ? JSON.stringify(project.lastNotification) : null,
+        project.archivePath, project.budgetUsd,
+        project.verification ? JSON.stringify(project.verification) : null,
+        project.verbosity, JSON.stringify(project.agentPolicy)
       )
     } catch (error) {
       this.ctx.log.error(`Failed to save project ${project.id}:`, error)
     }
   }
 
+  private publishEvent(projectId: string, type: PearBotEventType, data: Record<string, unknown>): void {
+    const event: PearBotEvent = {
+      id: ++this.eventSeq,
+      projectId,
+      type,
+      data,
+      timestamp: new Date().toISOString(),
+    }
+    this.eventHistory.push(event)
+    if (this.eventHistory.length > EVENT_HISTORY_SIZE) {
+      this.eventHistory.splice(0, this.eventHistory.length - EVENT_HISTORY_SIZE)
+    }
+    this.emit("event", event)
+  }
+
+  private getDb(): PluginDb {
+    return this.ctx.getDb() as PluginDb
+  }
+
+  private addColumnIfMissing(table: string, column: string, definition: string): void {
+    const db = this.getDb()
+    const columns = db.query(`PRAGMA table_info(${table})`).all()
+    if (!columns.some((c) => c.name === column)) {
+      db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+    }
+  }
+
   private sanitizeProject(p: ProjectMetadata): ProjectMetadata {
-    return { ...p, agentProcess: null, serverProcess: null, outputBuffer: "" }
+    const index = this.buildQueue.findIndex((job) => job.projectId === p.id)
+    const run = this.agentRuns.get(p.id)
+    return {
+      ...p,
+      usage: run ? { ...p.usage, wallClockMs: p.usage.wallClockMs + Date.now() - run.startedAt } : { ...p.usage },
+      agentProcess: null,
+      serverProcess: null,
+      queuePosition: index === -1 ? null : index + 1,
+    }
   }
 
   private buildCreatePrompt(name: string, description: string, techStack?: string): string {
@@ -802,11 +3006,10 @@ export class PearBotManager extends EventEmitter {
 
   private walkDir(dir: string, root: string): string[] {
     const results: string[] = []
-    const skipDirs = new Set(["node_modules", ".git", ".next", "dist", "build", "__pycache__", ".venv", "venv"])
     try {
       const entries = readdirSync(dir)
       for (const entry of entries) {
-        if (skipDirs.has(entry)) continue
+        if (SKIP_DIRS.has(entry)) continue
         const fullPath = join(dir, entry)
         try {
           const stat = statSync(fullPath)
@@ -0,0 +1,115 @@
+import { ValidationError } from "./errors"
+import type { AgentPolicy, AgentPolicyUpdate, PluginContext } from "./types"
+
+/**
+ * Per-project agent policies. A new project starts from the plugin settings,
+ * pearbot_create / pearbot_open can change individual fields, and the result
+ * is stored with the project and applied to every agent it runs.
+ */
+
+/** Tools the Claude Code CLI knows by name. The CLI matches them case-sensitively. */
+const CLI_TOOLS = [
+  "Bash", "BashOutput", "Edit", "ExitPlanMode", "Glob", "Grep", "KillShell", "LS", "MultiEdit",
+  "NotebookEdit", "NotebookRead", "Read", "SlashCommand", "Task", "TodoWrite", "WebFetch", "WebSearch", "Write",
+]
+// `Bash(npm run test:*)`, `Read(./src/**)`...
+const TOOL_RULE = /^([A-Za-z]+)(?:\((.+)\))?$/
+// `mcp__server` or `mcp__server__tool`
+const MCP_TOOL = /^mcp__[\w-]+(?:__[\w-]+)?$/
+
+/** Why the CLI would not recognise a tool rule, or null when it would. */
+export function toolRuleProblem(rule: string): string | null {
+  if (MCP_TOOL.test(rule)) return null
+  const name = rule.match(TOOL_RULE)?.[1]
+  if (name && CLI_TOOLS.includes(name)) return null
+  const base = (name ?? rule).toLowerCase()
+  const suggestion = CLI_TOOLS.find((tool) => tool.toLowerCase() === base)
+  return `Unknown tool "${rule}"${suggestion ? `; did you mean "${suggestion}"?` : ""}`
+}
+
+function splitList(value: string | undefined): string[] | null {
+  const items = (value || "").split(",").map((v) => v.trim()).filter(Boolean)
+  return items.length > 0 ? items : null
+}
+
+export function policyFromSettings(ctx: PluginContext): AgentPolicy {
+  const maxTurns = ctx.getSetting<number>("agentMaxTurns") || 0
+  const policy = {
+    model: ctx.getSetting<string>("agentModel")?.trim() || null,
+    maxTurns: maxTurns > 0 ? Math.floor(maxTurns) : null,
+    allowedTools: splitList(ctx.getSetting<string>("agentAllowedTools")),
+    disallowedTools: splitList(ctx.getSetting<string>("agentDisallowedTools")),
+    systemPromptAppend: ctx.getSetting<string>("agentSystemPromptAppend")?.trim() || null,
+  }
+  for (const rule of [...(policy.allowedTools ?? []), ...(policy.disallowedTools ?? [])]) {
+    const problem = toolRuleProblem(rule)
+    if (problem) ctx.log.warn(`Agent policy settings: ${problem}`)
+  }
+  return policy
+}
+
+function toolList(value: unknown, field: string): string[] | null {
+  if (value === null) return null
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    throw new ValidationError(`${field} must be a list of tool names`)
+  }
+  const tools = Array.from(new Set(value.map((v: string) => v.trim()).filter(Boolean)))
+  if (tools.length === 0) throw new ValidationError(`${field} must name at least one tool; use null to clear it`)
+  for (const tool of tools) {
+    const problem = toolRuleProblem(tool)
+    if (problem) throw new ValidationError(`${field}: ${problem}`)
+  }
+  return tools
+}
+
+/**
+ * Read a policy change from tool or REST arguments
+ * (`{ model, max_turns, allowed_tools, disallowed_tools, system_prompt_append }`).
+ */
+export function policyUpdateFromArgs(value: unknown): AgentPolicyUpdate {
+  if (value === undefined) return {}
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new ValidationError("agent_policy must be an object")
+  }
+  const args = value as Record<string, unknown>
+  const update: AgentPolicyUpdate = {}
+
+  if (args.model !== undefined) {
+    if (args.model !== null && typeof args.model !== "string") throw new ValidationError("model must be a string")
+    update.model = (args.model as string | null)?.trim() || null
+  }
+  if (args.max_turns !== undefined) {
+    const turns = args.max_turns
+    if (turns !== null && (typeof turns !== "number" || !Number.isInteger(turns) || turns < 1)) {
+      throw new ValidationError("max_turns must be a positive integer")
+    }
+    update.maxTurns = turns as number | null
+  }
+  if (args.allowed_tools !== undefined) update.allowedTools = toolList(args.allowed_tools, "allowed_tools")
+  if (args.disallowed_tools !== undefined) update.disallowedTools = toolList(args.disallowed_tools, "disallowed_tools")
+  if (args.system_prompt_append !== undefined) {
+    const text = args.system_prompt_append
+    if (text !== null && typeof text !== "string") throw new ValidationError("system_prompt_append must be a string")
+    update.systemPromptAppend = (text as string | null)?.trim() || null
+  }
+  return update
+}
+
+export function applyPolicyUpdate(policy: AgentPolicy, update: AgentPolicyUpdate): AgentPolicy {
+  const next = { ...policy }
+  for (const key of Object.keys(update) as (keyof AgentPolicy)[]) {
+    if (update[key] !== undefined) (next as Record<string, unknown>)[key] = update[key]
+  }
+  return next
+}
+
+/** One line for status output; null when the agent runs with every default. */
+export function describePolicy(policy: AgentPolicy): string | null {
+  const parts: string[] = []
+  if (policy.model) parts.push(`model ${policy.model}`)
+  if (policy.maxTurns) parts.push(`max ${policy.maxTurns} turns`)
+  if (policy.allowedTools) parts.push(`only ${policy.allowedTools.join(", ")}`)
+  if (policy.disallowedTools) parts.push(`no ${policy.disallowedTools.join(", ")}`)
+  if (policy.systemPromptAppend) parts.push("extra instructions")
+  return parts.length > 0 ? parts.join("; ") : null
+}
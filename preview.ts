@@ -0,0 +1,169 @@
+/**
+ * Reverse proxy from `/preview/:id/*` to a project's dev server on 127.0.0.1,
+ * so dev servers never have to be reachable from outside. Plain HTTP is
+ * forwarded with fetch; WebSockets (HMR) are relayed frame by frame.
+ *
+ * The dev server runs generated code, so PearBot's own credentials (the API
+ * token header, `?token=` and cookies for the plugin's origin) are stripped on
+ * the way in, and the dev server may not set cookies on the way out.
+ */
+
+/** Route-relative path a project is previewed under. */
+export function previewPath(projectId: string): string {
+  return `/preview/${projectId}/`
+}
+
+/**
+ * Split an incoming preview URL into the public prefix (everything up to and
+ * including `/preview/:id/`) and the still-encoded path after it.
+ */
+export function splitPreviewUrl(url: URL, projectId: string): { publicPrefix: string; rest: string } {
+  const marker = previewPath(projectId)
+  const index = url.pathname.indexOf(marker)
+  if (index === -1) return { publicPrefix: marker, rest: "" }
+  return {
+    publicPrefix: url.pathname.substring(0, index + marker.length),
+    rest: url.pathname.substring(index + marker.length),
+  }
+}
+
+// Connection-level headers that must not be forwarded by a proxy
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+]
+
+// Credentials meant for PearBot or its host, never for the dev server
+const CREDENTIAL_HEADERS = ["authorization", "cookie"]
+const TOKEN_QUERY_PARAM = "token"
+
+/** A query string (with its `?`) without PearBot's `token` parameter. */
+export function stripTokenParam(search: string): string {
+  const params = new URLSearchParams(search)
+  if (!params.has(TOKEN_QUERY_PARAM)) return search
+  params.delete(TOKEN_QUERY_PARAM)
+  const rest = params.toString()
+  return rest ? `?${rest}` : ""
+}
+
+export interface ProxyTarget {
+  port: number
+  /** Path on the dev server, including the query string */
+  path: string
+  /** Public path prefix of the preview, used to rewrite redirects */
+  publicPrefix: string
+}
+
+export async function proxyHttp(request: Request, target: ProxyTarget): Promise<Response> {
+  const incoming = new URL(request.url)
+  const headers = new Headers(request.headers)
+  for (const name of [...HOP_BY_HOP_HEADERS, ...CREDENTIAL_HEADERS]) headers.delete(name)
+  headers.set("host", `127.0.0.1:${target.port}`)
+  headers.set("x-forwarded-host", incoming.host)
+  headers.set("x-forwarded-proto", incoming.protocol.replace(":", ""))
+  headers.set("x-forwarded-prefix", target.publicPrefix.replace(/\/$/, ""))
+  // fetch would transparently decompress, leaving a stale Content-Encoding
+  headers.set("accept-encoding", "identity")
+
+  const hasBody = request.method !== "GET" && request.method !== "HEAD"
+  let upstream: Response
+  try {
+    upstream = await fetch(`http://127.0.0.1:${target.port}${target.path}`, {
+      method: request.method,
+      headers,
+      body: hasBody ? request.body : undefined,
+      redirect: "manual",
+    })
+  } catch {
+    return new Response("Dev server is not responding", { status: 502 })
+  }
+
+  const responseHeaders = new Headers(upstream.headers)
+  for (const name of HOP_BY_HOP_HEADERS) responseHeaders.delete(name)
+  responseHeaders.delete("set-cookie")
+  if (responseHeaders.has("content-encoding")) {
+    responseHeaders.delete("content-encoding")
+    responseHeaders.delete("content-length")
+  }
+  const location = responseHeaders.get("location")
+  if (location) responseHeaders.set("location", rewriteLocation(location, target))
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers: responseHeaders,
+  })
+}
+
+/** Map redirects pointing at the dev server's own origin or root back under the preview prefix. */
+function rewriteLocation(location: string, target: ProxyTarget): string {
+  const local = location.match(/^https?:\/\/(?:127\.0\.0\.1|localhost|0\.0\.0\.0):(\d+)(\/.*)?$/)
+  if (local && Number(local[1]) === target.port) location = local[2] || "/"
+  if (!location.startsWith("/") || location.startsWith("//")) return location
+  if (location.startsWith(target.publicPrefix)) return location
+  return target.publicPrefix + location.substring(1)
+}
+
+/** The subset of a server-side socket the relay needs. */
+export interface ClientSocket {
+  send(data: string | BufferSource): unknown
+  close(code?: number, reason?: string): unknown
+}
+
+export interface SocketRelay {
+  /** Forward a frame from the client to the dev server */
+  send(data: string | BufferSource): void
+  close(code?: number, reason?: string): void
+}
+
+// Codes an application may pass to close(); reserved ones (1005, 1006...) throw
+function closeCode(code: number | undefined): number | undefined {
+  return code === 1000 || (code !== undefined && code >= 3000 && code <= 4999) ? code : undefined
+}
+
+/**
+ * Open a socket to the dev server and pipe frames both ways. Client frames
+ * sent before the upstream connection opens are buffered.
+ */
+export function relayWebSocket(client: ClientSocket, target: ProxyTarget, protocols: string[]): SocketRelay {
+  const upstream = new WebSocket(`ws://127.0.0.1:${target.port}${target.path}`, protocols)
+  upstream.binaryType = "arraybuffer"
+  const pending: (string | BufferSource)[] = []
+  let closed = false
+
+  upstream.onopen = () => {
+    for (const frame of pending) upstream.send(frame)
+    pending.length = 0
+  }
+  upstream.onmessage = (event) => {
+    client.send(event.data as string | ArrayBuffer)
+  }
+  upstream.onclose = (event) => {
+    if (closed) return
+    closed = true
+    client.close(closeCode(event.code), event.reason)
+  }
+  upstream.onerror = () => {
+    if (closed) return
+    closed = true
+    client.close(1011, "Dev server connection failed")
+  }
+
+  return {
+    send(data) {
+      if (upstream.readyState === WebSocket.OPEN) upstream.send(data)
+      else if (upstream.readyState === WebSocket.CONNECTING) pending.push(data)
+    },
+    close(code, reason) {
+      if (closed) return
+      closed = true
+      upstream.close(closeCode(code), reason)
+    },
+  }
+}
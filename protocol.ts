@@ -0,0 +1,233 @@
+import type { ProjectNotification } from "./types"
+
+/**
+ * The `<pearbot>` notification protocol builder agents use to report status.
+ * The prompt text given to agents is generated from the same definitions
+ * the parser validates against, so the two cannot drift apart.
+ */
+
+export const PROTOCOL_VERSION = 3
+
+/** Statuses an agent may report. ("stalled" is PearBot's own.) */
+export const AGENT_STATUSES = ["progress", "clarify", "success", "failed"] as const
+export type AgentStatus = (typeof AGENT_STATUSES)[number]
+
+export const PHASES = [
+  "planning",
+  "scaffolding",
+  "dependencies",
+  "coding",
+  "styling",
+  "testing",
+  "documentation",
+  "finalizing",
+] as const
+
+/** Placeholder in CLAUDE.md that is replaced with `protocolPrompt()` */
+export const PROTOCOL_PLACEHOLDER = "{{PEARBOT_PROTOCOL}}"
+
+/** Longest tag (including content) kept while waiting for its closing tag */
+const MAX_PENDING_CHARS = 16_000
+
+const OPEN_TAG = /<pearbot\b([^>]*)>/g
+const CLOSE_TAG = "</pearbot>"
+const ATTRIBUTE = /([A-Za-z_][\w-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+const QUESTION_ID = /^[\w.-]{1,64}$/
+const DURATION = /^(\d+(?:\.\d+)?)\s*(s|m|h)?$/i
+const DURATION_UNIT_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000 }
+
+export interface ParseResult {
+  notifications: ProjectNotification[]
+  /** Tags that were seen but rejected, with the reason */
+  errors: string[]
+}
+
+function isAgentStatus(value: string): value is AgentStatus {
+  return (AGENT_STATUSES as readonly string[]).includes(value)
+}
+
+function parseAttributes(raw: string): { attributes: Record<string, string>; leftover: string } {
+  const attributes: Record<string, string> = {}
+  const leftover = raw.replace(ATTRIBUTE, (_, name: string, double?: string, single?: string) => {
+    attributes[name.toLowerCase()] = double ?? single ?? ""
+    return ""
+  })
+  return { attributes, leftover: leftover.trim() }
+}
+
+/** "90s", "10m", "2h"; a bare number is minutes. */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(DURATION)
+  if (!match) return null
+  return Number(match[1]) * DURATION_UNIT_MS[(match[2] ?? "m").toLowerCase()]
+}
+
+function snippet(text: string): string {
+  const oneLine = text.replace(/\s+/g, " ")
+  return oneLine.length > 80 ? oneLine.substring(0, 80) + "…" : oneLine
+}
+
+/** Turn one complete tag into a notification, or explain why it is invalid. */
+function toNotification(rawAttributes: string, body: string): ProjectNotification | string {
+  const { attributes, leftover } = parseAttributes(rawAttributes)
+  if (leftover) return `unparseable attributes "${snippet(leftover)}"`
+
+  const status = attributes.status
+  if (!status) return "missing status attribute"
+  if (!isAgentStatus(status)) return `unknown status "${status}"`
+
+  const version = attributes.version
+  if (version !== undefined && Number(version) > PROTOCOL_VERSION) {
+    return `protocol version ${version} is newer than supported version ${PROTOCOL_VERSION}`
+  }
+
+  const notification: ProjectNotification = {
+    status,
+    phase: attributes.phase || undefined,
+    content: body.trim(),
+  }
+
+  if (attributes.progress !== undefined) {
+    const progress = Number(attributes.progress.replace(/%$/, ""))
+    if (!Number.isFinite(progress) || progress < 0 || progress > 100) {
+      return `progress must be 0–100, got "${attributes.progress}"`
+    }
+    notification.progress = progress
+  }
+  if (attributes.eta) notification.eta = attributes.eta
+
+  if (status === "clarify") {
+    const problem = readQuestion(attributes, notification)
+    if (problem) return problem
+  }
+
+  return notification
+}
+
+/** The optional structured-question attributes of a clarify tag. */
+function readQuestion(attributes: Record<string, string>, notification: ProjectNotification): string | null {
+  if (attributes.id !== undefined) {
+    if (!QUESTION_ID.test(attributes.id)) return `invalid question id "${attributes.id}"`
+    notification.questionId = attributes.id
+  }
+  if (attributes.options !== undefined) {
+    const options = attributes.options.split("|").map((o) => o.trim()).filter(Boolean)
+    if (options.length === 0) return "options must list at least one choice"
+    notification.options = options
+  }
+  if (attributes.default !== undefined) {
+    const fallback = attributes.default.trim()
+    if (notification.options && !notification.options.includes(fallback)) {
+      return `default "${fallback}" is not one of the options`
+    }
+    notification.default = fallback
+  }
+  if (attributes.deadline !== undefined) {
+    const ms = parseDuration(attributes.deadline)
+    if (ms === null || ms <= 0) return `deadline must be a duration like "10m", got "${attributes.deadline}"`
+    notification.deadline = new Date(Date.now() + ms).toISOString()
+  }
+  return null
+}
+
+/**
+ * Incremental parser for one agent session. Text is pushed as it arrives;
+ * a tag opened in one message and closed in a later one is held until it
+ * completes. Call `flush()` when the agent's turn ends.
+ */
+export class NotificationParser {
+  private pending = ""
+
+  push(text: string): ParseResult {
+    const result: ParseResult = { notifications: [], errors: [] }
+    const input = this.pending + text
+    this.pending = ""
+
+    OPEN_TAG.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = OPEN_TAG.exec(input))) {
+      const bodyStart = match.index + match[0].length
+      const closeIndex = input.indexOf(CLOSE_TAG, bodyStart)
+      const nextOpen = input.indexOf("<pearbot", bodyStart)
+
+      if (closeIndex === -1) {
+        // Unterminated so far; wait for more text unless another tag starts first
+        if (nextOpen !== -1) {
+          result.errors.push(`tag without closing </pearbot>: "${snippet(input.substring(match.index, nextOpen))}"`)
+          OPEN_TAG.lastIndex = nextOpen
+          continue
+        }
+        this.pending = input.substring(match.index)
+        if (this.pending.length > MAX_PENDING_CHARS) {
+          result.errors.push(`tag without closing </pearbot>: "${snippet(this.pending)}"`)
+          this.pending = ""
+        }
+        return result
+      }
+
+      if (nextOpen !== -1 && nextOpen < closeIndex) {
+        result.errors.push(`tag without closing </pearbot>: "${snippet(input.substring(match.index, nextOpen))}"`)
+        OPEN_TAG.lastIndex = nextOpen
+        continue
+      }
+
+      const parsed = toNotification(match[1], input.substring(bodyStart, closeIndex))
+      if (typeof parsed === "string") result.errors.push(`${parsed} in "${snippet(match[0])}"`)
+      else result.notifications.push(parsed)
+      OPEN_TAG.lastIndex = closeIndex + CLOSE_TAG.length
+    }
+
+    // Keep a trailing partial "<pearb" that may be completed by the next chunk
+    const partial = input.lastIndexOf("<")
+    if (partial !== -1 && "<pearbot".startsWith(input.substring(partial, partial + 8)) && !input.includes(">", partial)) {
+      this.pending = input.substring(partial)
+    }
+    return result
+  }
+
+  /** End of turn: anything still pending can no longer be completed. */
+  flush(): ParseResult {
+    const result: ParseResult = { notifications: [], errors: [] }
+    if (this.pending.trim().startsWith("<pearbot")) {
+      result.errors.push(`tag without closing </pearbot>: "${snippet(this.pending)}"`)
+    }
+    this.pending = ""
+    return result
+  }
+}
+
+/** Protocol instructions for the builder agent's system prompt. */
+export function protocolPrompt(): string {
+  return [
+    `## PearBot status protocol (version ${PROTOCOL_VERSION})`,
+    "",
+    "Report status by writing tags in your normal text output:",
+    "",
+    "```xml",
+    `<pearbot status="progress" phase="coding" progress="40" eta="10m">`,
+    "  Built the API routes; starting on the UI.",
+    "</pearbot>",
+    "```",
+    "",
+    `- \`status\` (required): ${AGENT_STATUSES.map((s) => `\`${s}\``).join(", ")}.`,
+    "  - `progress`: a milestone was reached.",
+    "  - `clarify`: you need an answer from the user before continuing. Ask one clear question per tag, then stop and wait.",
+    "  - `success`: the project is complete and works. PearBot will install, build and test it.",
+    "  - `failed`: you cannot complete the project; explain why.",
+    `- \`phase\` (optional): ${PHASES.map((p) => `\`${p}\``).join(", ")}.`,
+    "- `progress` (optional): estimated percent complete, 0–100.",
+    "- `eta` (optional): estimated time remaining, e.g. `10m`.",
+    "",
+    "`clarify` tags may also carry:",
+    "",
+    "- `id`: a short identifier for the question, e.g. `layout`. Answers refer to it.",
+    "- `options`: the choices, separated by `|`, e.g. `options=\"Sidebar|Top navigation\"`.",
+    "- `default`: the choice to use if the user does not answer (must be one of `options`).",
+    "- `deadline`: how long to wait for an answer, e.g. `15m`. After that you will be told to proceed with the default.",
+    "",
+    "You may ask several questions at once, one `clarify` tag each. Answers arrive together in one message once all are answered.",
+    "",
+    "Attributes may appear in any order. Several tags may appear in one message.",
+    "Always close the tag with `</pearbot>`.",
+  ].join("\n")
+}
@@ -0,0 +1,181 @@
+import { spawn, type Subprocess } from "bun"
+import { copyFileSync, existsSync, mkdirSync, statSync } from "fs"
+import { homedir } from "os"
+import { join } from "path"
+import type { Sandbox } from "./sandbox"
+import type { AgentPolicy } from "./types"
+
+/**
+ * The boundary between PearBotManager and the coding agent it drives. A
+ * runner starts an agent session; the handle carries messages both ways.
+ * The Claude Code CLI is the production runner; tests use a scripted fake.
+ */
+
+/**
+ * One stream-json message from the agent (system, assistant, user, result...).
+ * Parsed from the CLI's output as-is, so every field must be narrowed before use.
+ */
+export type AgentMessage = Record<string, unknown>
+
+/** The object-shaped content blocks of an assistant or user message. */
+export function contentBlocks(message: AgentMessage): Record<string, unknown>[] {
+  const inner = message.message
+  if (typeof inner !== "object" || inner === null || !("content" in inner)) return []
+  const content = inner.content
+  if (!Array.isArray(content)) return []
+  return content.filter((block): block is Record<string, unknown> => typeof block === "object" && block !== null)
+}
+
+export interface AgentSpawnOptions {
+  /** Working directory for the agent */
+  cwd: string
+  systemPrompt: string | null
+  /** Session to continue instead of starting a new one */
+  resumeSessionId: string | null
+  policy: AgentPolicy
+  sandbox: Sandbox
+  /** Project variables, on top of the sandbox's scrubbed environment */
+  env: Record<string, string>
+  /** The agent's own config and session directory, writable only by this project's agents */
+  configDir: string
+}
+
+export interface AgentHandle {
+  /** Messages from the agent, in order; ends when the agent's output closes */
+  messages: AsyncIterable<AgentMessage>
+  /** Diagnostic output (stderr), line by line */
+  diagnostics: AsyncIterable<string>
+  /** Resolves with the exit code once the agent has gone away */
+  exited: Promise<number>
+  /** Resolves when the agent is ready to take its first message */
+  ready: Promise<void>
+  /** Send a user message */
+  send(text: string): void
+  /** Ask the agent to abandon its current turn without ending the session */
+  interrupt(): void
+  kill(): void
+}
+
+export interface AgentRunner {
+  spawn(options: AgentSpawnOptions): AgentHandle
+}
+
+/** Split a byte stream into lines; a trailing partial line is yielded at the end. */
+export async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder()
+  let pending = ""
+  for await (const chunk of stream) {
+    pending += decoder.decode(chunk, { stream: true })
+    const lines = pending.split("\n")
+    pending = lines.pop() || ""
+    yield* lines
+  }
+  if (pending) yield pending
+}
+
+async function* parseMessages(stream: ReadableStream<Uint8Array>): AsyncGenerator<AgentMessage> {
+  for await (const line of readLines(stream)) {
+    if (!line.trim()) continue
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(line)
+    } catch {
+      // Not valid JSON, skip
+      continue
+    }
+    if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+      yield parsed as AgentMessage
+    }
+  }
+}
+
+/**
+ * CLI arguments for an agent policy. Without an allowlist the agent keeps
+ * full permissions (minus any disallowed tools); with one, only the listed
+ * tools are permitted and everything else is refused.
+ */
+export function policyArgs(policy: AgentPolicy): string[] {
+  const args = policy.allowedTools
+    ? ["--allowedTools", ...policy.allowedTools]
+    : ["--dangerously-skip-permissions"]
+  if (policy.disallowedTools) args.push("--disallowedTools", ...policy.disallowedTools)
+  if (policy.model) args.push("--model", policy.model)
+  if (policy.maxTurns) args.push("--max-turns", String(policy.maxTurns))
+  if (policy.systemPromptAppend) args.push("--append-system-prompt", policy.systemPromptAppend)
+  return args
+}
+
+// The CLI needs a moment before it reads stdin reliably
+const CLI_STARTUP_DELAY_MS = 2000
+const CREDENTIALS_FILE = ".credentials.json"
+
+/**
+ * Give an agent its own CLI config directory, so nothing it writes there
+ * (settings, hooks) reaches the host's CLI. The host's login is copied in
+ * when it is newer; API-key setups need nothing but the environment.
+ */
+function prepareConfigDir(configDir: string): void {
+  mkdirSync(configDir, { recursive: true, mode: 0o700 })
+  const hostCredentials = join(process.env.CLAUDE_CONFIG_DIR || join(homedir(), ".claude"), CREDENTIALS_FILE)
+  const credentials = join(configDir, CREDENTIALS_FILE)
+  if (!existsSync(hostCredentials)) return
+  if (existsSync(credentials) && statSync(credentials).mtimeMs >= statSync(hostCredentials).mtimeMs) return
+  copyFileSync(hostCredentials, credentials)
+}
+
+/** Runs the `claude` CLI in stream-json mode. */
+export class ClaudeCliRunner implements AgentRunner {
+  constructor(private command = "claude") {}
+
+  spawn(options: AgentSpawnOptions): AgentHandle {
+    const args = [
+      "-p",
+      "--verbose",
+      "--input-format", "stream-json",
+      "--output-format", "stream-json",
+      ...policyArgs(options.policy),
+    ]
+
+    if (options.systemPrompt) {
+      args.push("--system-prompt", options.systemPrompt)
+    }
+
+    if (options.resumeSessionId) {
+      args.push("--resume", options.resumeSessionId)
+    }
+
+    // The CLI keeps sessions and credentials in its config directory and needs its API settings
+    prepareConfigDir(options.configDir)
+    const sandboxed = options.sandbox.wrap([this.command, ...args], {
+      writableDir: options.cwd,
+      cwd: options.cwd,
+      extraWritable: [options.configDir],
+      allowEnv: ["ANTHROPIC_*", "CLAUDE_*"],
+      env: options.env,
+    })
+    const proc: Subprocess<"pipe", "pipe", "pipe"> = spawn(sandboxed.command, {
+      cwd: options.cwd,
+      env: { ...sandboxed.env, CLAUDE_CONFIG_DIR: options.configDir },
+      stdin: "pipe",
+      stdout: "pipe",
+      stderr: "pipe",
+    })
+
+    const write = (payload: Record<string, unknown>) => {
+      proc.stdin.write(JSON.stringify(payload) + "\n")
+      proc.stdin.flush()
+    }
+    let interrupts = 0
+
+    return {
+      messages: parseMessages(proc.stdout),
+      diagnostics: readLines(proc.stderr),
+      exited: proc.exited,
+      ready: new Promise((resolve) => setTimeout(resolve, CLI_STARTUP_DELAY_MS)),
+      send: (text) => write({ type: "user", message: { role: "user", content: text } }),
+      interrupt: () =>
+        write({ type: "control_request", request_id: `interrupt_${++interrupts}`, request: { subtype: "interrupt" } }),
+      kill: () => proc.kill(),
+    }
+  }
+}
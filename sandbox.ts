@@ -0,0 +1,195 @@
+import { spawnSync } from "bun"
+import { existsSync, statSync } from "fs"
+import { constants } from "os"
+import type { PluginContext } from "./types"
+
+/**
+ * Sandboxing for the processes PearBot starts on a project's behalf: builder
+ * agents, dev servers and verification steps. Each gets a scrubbed
+ * environment (only allowlisted variables survive) and per-process rlimits
+ * for CPU time, memory and process count, applied with `prlimit`. When
+ * bubblewrap works on the host, the process also runs in its own mount, PID
+ * and IPC namespaces with a read-only root, where only its project
+ * directory (and a private /tmp) is writable. PearBot's own data (the plugin
+ * DB, the environment key, other projects) is hidden there.
+ */
+
+export type SandboxMode = "auto" | "bwrap" | "rlimit" | "off"
+
+export interface SandboxLimits {
+  /** CPU seconds per process (0 = unlimited) */
+  cpuSeconds: number
+  /** Writable memory per process in MB (0 = unlimited) */
+  memoryMb: number
+  /** Processes per user (0 = unlimited) */
+  maxProcesses: number
+}
+
+export interface SandboxSpec {
+  /** The project directory: the only place outside /tmp the process may write */
+  writableDir: string
+  cwd: string
+  /** Further paths to keep writable when they exist (e.g. the agent CLI's state) */
+  extraWritable?: string[]
+  /** Extra allowlist patterns for this kind of process; `env` cannot override these */
+  allowEnv?: string[]
+  /** Variables set after scrubbing */
+  env?: Record<string, string>
+}
+
+export const DEFAULT_ENV_ALLOWLIST = [
+  "PATH", "HOME", "USER", "LOGNAME", "SHELL", "LANG", "LC_*", "TERM", "TZ", "TMPDIR",
+  "HTTP_PROXY", "HTTPS_PROXY", "NO_PROXY", "http_proxy", "https_proxy", "no_proxy",
+]
+
+// SIGXCPU arrives at the soft CPU limit; SIGKILL follows this much later
+const CPU_HARD_LIMIT_GRACE_SECONDS = 10
+const VIOLATION_OUTPUT_CHARS = 4000
+
+function splitList(value: string | undefined): string[] {
+  return (value || "").split(",").map((v) => v.trim()).filter(Boolean)
+}
+
+function matchesPattern(name: string, pattern: string): boolean {
+  return pattern.endsWith("*") ? name.startsWith(pattern.slice(0, -1)) : name === pattern
+}
+
+/** Only the variables whose names match an allowlist pattern (`NAME` or `PREFIX*`). */
+export function scrubEnv(source: Record<string, string | undefined>, allowlist: string[]): Record<string, string> {
+  const env: Record<string, string> = {}
+  for (const [name, value] of Object.entries(source)) {
+    if (value !== undefined && allowlist.some((pattern) => matchesPattern(name, pattern))) env[name] = value
+  }
+  return env
+}
+
+function works(command: string[]): boolean {
+  try {
+    return spawnSync(command, { stdout: "ignore", stderr: "ignore" }).exitCode === 0
+  } catch {
+    return false
+  }
+}
+
+export class Sandbox {
+  /** Whether processes run under bubblewrap with confined writes */
+  readonly confined: boolean
+  /** Whether rlimits are applied */
+  readonly limited: boolean
+
+  constructor(
+    readonly mode: SandboxMode,
+    private envAllowlist: string[],
+    readonly limits: SandboxLimits,
+    log?: PluginContext["log"],
+    /** Files and directories replaced with empty ones inside bubblewrap */
+    private hiddenPaths: string[] = []
+  ) {
+    const wantsBwrap = mode === "auto" || mode === "bwrap"
+    this.confined = wantsBwrap && works(["bwrap", "--ro-bind", "/", "/", "--dev", "/dev", "--proc", "/proc", "true"])
+    const hasLimits = limits.cpuSeconds > 0 || limits.memoryMb > 0 || limits.maxProcesses > 0
+    this.limited = mode !== "off" && hasLimits && works(["prlimit", "--", "true"])
+
+    if (mode === "off") return
+    if (wantsBwrap && !this.confined) {
+      const message = "bubblewrap (bwrap) is not available; agents and dev servers can write outside their project directory"
+      if (mode === "bwrap") log?.error(message)
+      else log?.info(message)
+    }
+    if (hasLimits && !this.limited) log?.warn("prlimit is not available; sandbox resource limits are not applied")
+  }
+
+  static fromSettings(ctx: PluginContext, hiddenPaths: string[] = []): Sandbox {
+    const mode = (ctx.getSetting<string>("sandboxMode") || "auto") as SandboxMode
+    const allowlist = splitList(ctx.getSetting<string>("sandboxEnvAllowlist"))
+    return new Sandbox(
+      ["auto", "bwrap", "rlimit", "off"].includes(mode) ? mode : "auto",
+      allowlist.length > 0 ? allowlist : DEFAULT_ENV_ALLOWLIST,
+      {
+        cpuSeconds: ctx.getSetting<number>("sandboxCpuSeconds") ?? 3600,
+        memoryMb: ctx.getSetting<number>("sandboxMemoryMb") ?? 4096,
+        maxProcesses: ctx.getSetting<number>("sandboxMaxProcesses") ?? 1024,
+      },
+      ctx.log,
+      hiddenPaths
+    )
+  }
+
+  /** The command and environment to actually spawn. */
+  wrap(command: string[], spec: SandboxSpec): { command: string[]; env: Record<string, string> } {
+    // What the process needs from the host (e.g. the agent's API settings) stays the host's
+    const ownEnv = spec.allowEnv ?? []
+    const extraEnv: Record<string, string> = {}
+    for (const [name, value] of Object.entries(spec.env ?? {})) {
+      if (!ownEnv.some((pattern) => matchesPattern(name, pattern))) extraEnv[name] = value
+    }
+
+    if (this.mode === "off") {
+      return { command, env: { ...(process.env as Record<string, string>), ...extraEnv } }
+    }
+
+    const env = { ...scrubEnv(process.env, [...this.envAllowlist, ...ownEnv]), ...extraEnv }
+    let wrapped = command
+
+    if (this.confined) {
+      const args = [
+        "bwrap",
+        "--ro-bind", "/", "/",
+        "--dev", "/dev",
+        "--proc", "/proc",
+        "--tmpfs", "/tmp",
+      ]
+      // Hide first: the project directory may live inside a hidden one and is bound back below
+      for (const path of this.hiddenPaths) {
+        if (!existsSync(path)) continue
+        if (statSync(path).isDirectory()) args.push("--tmpfs", path)
+        else args.push("--ro-bind", "/dev/null", path)
+      }
+      args.push("--bind", spec.writableDir, spec.writableDir)
+      for (const path of spec.extraWritable ?? []) {
+        if (existsSync(path)) args.push("--bind", path, path)
+      }
+      args.push("--unshare-pid", "--unshare-ipc", "--die-with-parent", "--new-session", "--chdir", spec.cwd, "--")
+      wrapped = [...args, ...wrapped]
+      // The home directory is read-only in here; keep package caches in the private /tmp
+      env.TMPDIR = "/tmp"
+      env.XDG_CACHE_HOME = "/tmp/.cache"
+      env.npm_config_cache = "/tmp/.npm"
+      env.BUN_INSTALL_CACHE_DIR = "/tmp/.bun-cache"
+    }
+
+    if (this.limited) {
+      const { cpuSeconds, memoryMb, maxProcesses } = this.limits
+      const args = ["prlimit"]
+      if (cpuSeconds > 0) args.push(`--cpu=${cpuSeconds}:${cpuSeconds + CPU_HARD_LIMIT_GRACE_SECONDS}`)
+      // RLIMIT_DATA rather than RLIMIT_AS: JS engines reserve far more address space than they use
+      if (memoryMb > 0) args.push(`--data=${memoryMb * 1024 * 1024}`)
+      if (maxProcesses > 0) args.push(`--nproc=${maxProcesses}`)
+      wrapped = [...args, "--", ...wrapped]
+    }
+
+    return { command: wrapped, env }
+  }
+
+  /**
+   * Which limit, if any, a process most likely hit, judged from its exit code
+   * (128 + signal for signal deaths) and the tail of its output.
+   */
+  describeViolation(exitCode: number | null, output: string): string | null {
+    if (!this.limited || exitCode === 0) return null
+    const { cpuSeconds, memoryMb, maxProcesses } = this.limits
+    const tail = output.slice(-VIOLATION_OUTPUT_CHARS)
+    const signal = exitCode !== null && exitCode > 128 ? exitCode - 128 : null
+
+    if (cpuSeconds > 0 && signal === constants.signals.SIGXCPU) {
+      return `exceeded the CPU time limit of ${cpuSeconds}s`
+    }
+    if (memoryMb > 0 && /out of memory|cannot allocate memory|ENOMEM|allocation failed/i.test(tail)) {
+      return `ran out of memory under the ${memoryMb} MB limit`
+    }
+    if (maxProcesses > 0 && /(fork|spawn|thread).*(resource temporarily unavailable|EAGAIN)/i.test(tail)) {
+      return `hit the limit of ${maxProcesses} processes`
+    }
+    return null
+  }
+}
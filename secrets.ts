@@ -0,0 +1,176 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto"
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs"
+import { dirname } from "path"
+import { ValidationError } from "./errors"
+import type { PluginDb } from "./manager"
+import type { PluginContext, ProjectEnvVar } from "./types"
+
+/**
+ * Per-project environment variables, injected into the project's builder
+ * agent, dev server and verification steps. Values are encrypted at rest
+ * with AES-256-GCM under the plugin key: the `envEncryptionKey` setting if
+ * set, otherwise a random key generated once into a 0600 file in the plugin's
+ * data directory (hidden from sandboxed processes). Secret
+ * variables are never listed back, and their values are redacted from
+ * transcripts, logs and status output.
+ */
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+/** Set by PearBot or the sandbox itself */
+const RESERVED_NAMES = new Set(["PATH", "HOME", "PORT", "HOST", "BASE_PATH", "CI", "TMPDIR"])
+/** Variables that load code into every process a project starts, including the agent CLI */
+const LOADER_NAMES = new Set(["NODE_OPTIONS", "BUN_OPTIONS", "BASH_ENV", "ENV", "PYTHONSTARTUP", "PERL5OPT", "RUBYOPT"])
+const LOADER_PREFIXES = ["LD_", "DYLD_"]
+/** The agent's own API credentials and settings */
+const AGENT_PREFIXES = ["ANTHROPIC_", "CLAUDE_"]
+const MAX_VALUE_CHARS = 32 * 1024
+/** Shorter secrets are not redacted; they would match too much ordinary text */
+const MIN_REDACT_CHARS = 4
+const CIPHER_VERSION = "v1"
+
+function reservedReason(name: string): string | null {
+  const upper = name.toUpperCase()
+  if (RESERVED_NAMES.has(upper)) return `${name} is set by PearBot and cannot be overridden`
+  if (LOADER_NAMES.has(upper) || LOADER_PREFIXES.some((prefix) => upper.startsWith(prefix))) {
+    return `${name} would load code into the agent and dev server and cannot be set`
+  }
+  if (AGENT_PREFIXES.some((prefix) => upper.startsWith(prefix))) {
+    return `${name} belongs to the builder agent's own configuration and cannot be set`
+  }
+  return null
+}
+
+type StoredVar = { value: string; secret: boolean; updatedAt: string }
+
+export class ProjectEnvStore {
+  private key: Buffer | null = null
+  /** Decrypted variables per project, loaded on first use */
+  private cache: Map<string, Map<string, StoredVar>> = new Map()
+
+  constructor(private ctx: PluginContext, private keyFile: string) {}
+
+  init(): void {
+    this.getDb().run(`
+      CREATE TABLE IF NOT EXISTS pearbot_env (
+        project_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        value_enc TEXT NOT NULL,
+        secret INTEGER NOT NULL DEFAULT 1,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (project_id, name)
+      )
+    `)
+  }
+
+  set(projectId: string, name: string, value: string, secret: boolean): ProjectEnvVar {
+    if (!NAME_PATTERN.test(name)) {
+      throw new ValidationError(`Invalid variable name "${name}": use letters, digits and underscores, not starting with a digit`)
+    }
+    const reserved = reservedReason(name)
+    if (reserved) throw new ValidationError(reserved)
+    if (value.length > MAX_VALUE_CHARS) throw new ValidationError(`Values are limited to ${MAX_VALUE_CHARS} characters`)
+
+    const updatedAt = new Date().toISOString()
+    this.getDb().run(
+      `INSERT OR REPLACE INTO pearbot_env (project_id, name, value_enc, secret, updated_at) VALUES (?, ?, ?, ?, ?)`,
+      projectId, name, this.encrypt(value), secret ? 1 : 0, updatedAt
+    )
+    this.load(projectId).set(name, { value, secret, updatedAt })
+    return { name, secret, value: secret ? null : value, updatedAt }
+  }
+
+  unset(projectId: string, name: string): boolean {
+    const vars = this.load(projectId)
+    if (!vars.has(name)) return false
+    this.getDb().run("DELETE FROM pearbot_env WHERE project_id = ? AND name = ?", projectId, name)
+    vars.delete(name)
+    return true
+  }
+
+  list(projectId: string): ProjectEnvVar[] {
+    return Array.from(this.load(projectId).entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, v]) => ({ name, secret: v.secret, value: v.secret ? null : v.value, updatedAt: v.updatedAt }))
+  }
+
+  /** The variables to inject into the project's processes; reserved names stored by older versions are skipped. */
+  values(projectId: string): Record<string, string> {
+    const env: Record<string, string> = {}
+    for (const [name, v] of this.load(projectId)) {
+      if (!reservedReason(name)) env[name] = v.value
+    }
+    return env
+  }
+
+  /** Replace every secret value of the project in `text` with a placeholder. */
+  redact(projectId: string, text: string): string {
+    let result = text
+    const secrets = Array.from(this.load(projectId).entries())
+      .filter(([, v]) => v.secret && v.value.length >= MIN_REDACT_CHARS)
+      .sort(([, a], [, b]) => b.value.length - a.value.length)
+    for (const [name, v] of secrets) {
+      if (result.includes(v.value)) result = result.split(v.value).join(`[redacted ${name}]`)
+    }
+    return result
+  }
+
+  /** Drop a deleted project's variables from memory (its rows go with the project's). */
+  forget(projectId: string): void {
+    this.cache.delete(projectId)
+  }
+
+  private load(projectId: string): Map<string, StoredVar> {
+    let vars = this.cache.get(projectId)
+    if (vars) return vars
+    vars = new Map()
+    const rows = this.getDb().query("SELECT * FROM pearbot_env WHERE project_id = ?").all(projectId)
+    for (const row of rows) {
+      try {
+        vars.set(row.name as string, {
+          value: this.decrypt(row.value_enc as string),
+          secret: row.secret === 1,
+          updatedAt: row.updated_at as string,
+        })
+      } catch (error) {
+        this.ctx.log.error(`Could not decrypt ${row.name} for ${projectId}; was the plugin key changed?`, error)
+      }
+    }
+    this.cache.set(projectId, vars)
+    return vars
+  }
+
+  private encrypt(value: string): string {
+    const iv = randomBytes(12)
+    const cipher = createCipheriv("aes-256-gcm", this.getKey(), iv)
+    const data = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()])
+    return [CIPHER_VERSION, iv.toString("base64"), cipher.getAuthTag().toString("base64"), data.toString("base64")].join(":")
+  }
+
+  private decrypt(stored: string): string {
+    const [version, iv, tag, data] = stored.split(":")
+    if (version !== CIPHER_VERSION || !iv || !tag || data === undefined) throw new Error("Unrecognized value format")
+    const decipher = createDecipheriv("aes-256-gcm", this.getKey(), Buffer.from(iv, "base64"))
+    decipher.setAuthTag(Buffer.from(tag, "base64"))
+    return Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]).toString("utf-8")
+  }
+
+  private getKey(): Buffer {
+    if (this.key) return this.key
+    const configured = this.ctx.getSetting<string>("envEncryptionKey")
+    if (configured) {
+      this.key = createHash("sha256").update(configured).digest()
+    } else if (existsSync(this.keyFile)) {
+      this.key = Buffer.from(readFileSync(this.keyFile, "utf-8").trim(), "base64")
+    } else {
+      this.key = randomBytes(32)
+      mkdirSync(dirname(this.keyFile), { recursive: true, mode: 0o700 })
+      writeFileSync(this.keyFile, this.key.toString("base64") + "\n", { mode: 0o600 })
+      this.ctx.log.info(`Generated the project environment key at ${this.keyFile}`)
+    }
+    return this.key
+  }
+
+  private getDb(): PluginDb {
+    return this.ctx.getDb() as PluginDb
+  }
+}
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { chmodSync, existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { commitAll, ensureRepo, listCheckpoints } from "../checkpoints"
+
+let dir: string | null = null
+
+afterEach(() => {
+  if (dir) rmSync(dir, { recursive: true, force: true })
+  dir = null
+})
+
+function plantHook(hooksDir: string, marker: string) {
+  mkdirSync(hooksDir, { recursive: true })
+  const hook = join(hooksDir, "post-commit")
+  writeFileSync(hook, `#!/bin/sh\ntouch ${marker}\n`)
+  chmodSync(hook, 0o755)
+}
+
+describe("checkpoints", () => {
+  test("the repo lives outside the project and never runs hooks", async () => {
+    dir = mkdtempSync(join(tmpdir(), "pearbot-checkpoints-"))
+    const repo = { gitDir: join(dir, "repos", "p1"), workTree: join(dir, "project") }
+    const marker = join(dir, "hook-ran")
+    mkdirSync(repo.workTree)
+
+    // What an agent could write into its project
+    plantHook(join(repo.workTree, ".git", "hooks"), marker)
+    writeFileSync(join(repo.workTree, ".git", "config"), `[core]\n\thooksPath = ${join(repo.workTree, ".git", "hooks")}\n`)
+    writeFileSync(join(repo.workTree, "index.html"), "<h1>Hi</h1>\n")
+
+    await ensureRepo(repo, [".git", "node_modules"])
+    plantHook(join(repo.gitDir, "hooks"), marker)
+
+    expect(await commitAll(repo, "First")).toMatch(/^[0-9a-f]{40}$/)
+    expect((await listCheckpoints(repo, 10)).map((c) => c.message)).toEqual(["First"])
+    expect(existsSync(join(repo.gitDir, "HEAD"))).toBe(true)
+    expect(existsSync(join(repo.workTree, ".git", "HEAD"))).toBe(false)
+    expect(existsSync(marker)).toBe(false)
+  })
+})
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { readdirSync, readFileSync } from "fs"
+import { join } from "path"
+import { createHarness, statusOf, waitFor, type Harness } from "./helpers"
+
+let harness: Harness | null = null
+
+afterEach(async () => {
+  await harness?.cleanup()
+  harness = null
+})
+
+describe("project environment", () => {
+  test("variables are stored encrypted and listed without secret values", async () => {
+    harness = await createHarness({ fixtures: ["success"] })
+    const { manager, db } = harness
+    const { projectId } = await manager.createProject("Shop", "A store")
+
+    manager.setProjectEnv(projectId, "STRIPE_KEY", "sk_live_abc123")
+    manager.setProjectEnv(projectId, "NODE_ENV", "production", { secret: false })
+    expect(manager.listProjectEnv(projectId).map(({ name, secret, value }) => ({ name, secret, value }))).toEqual([
+      { name: "NODE_ENV", secret: false, value: "production" },
+      { name: "STRIPE_KEY", secret: true, value: null },
+    ])
+
+    const stored = db.query("SELECT value_enc FROM pearbot_env").all() as { value_enc: string }[]
+    expect(stored).toHaveLength(2)
+    expect(stored.some((row) => row.value_enc.includes("sk_live") || row.value_enc.includes("production"))).toBe(false)
+
+    expect(manager.unsetProjectEnv(projectId, "NODE_ENV")).toEqual({ removed: true })
+    expect(manager.unsetProjectEnv(projectId, "NODE_ENV")).toEqual({ removed: false })
+    expect(() => manager.setProjectEnv(projectId, "PATH", "/tmp")).toThrow("cannot be overridden")
+    expect(() => manager.setProjectEnv(projectId, "1BAD", "x")).toThrow("Invalid variable name")
+    expect(() => manager.setProjectEnv(projectId, "ANTHROPIC_BASE_URL", "https://evil.example")).toThrow("builder agent")
+    expect(() => manager.setProjectEnv(projectId, "LD_PRELOAD", "/tmp/x.so")).toThrow("load code")
+    expect(() => manager.setProjectEnv(projectId, "NODE_OPTIONS", "--require /tmp/x.js")).toThrow("load code")
+  })
+
+  test("the key lives in the data directory, not with the projects", async () => {
+    harness = await createHarness({ fixtures: ["success"] })
+    const { manager, ctx, projectsDir } = harness
+    const { projectId } = await manager.createProject("Shop", "A store")
+    manager.setProjectEnv(projectId, "STRIPE_KEY", "sk_live_abc123")
+    expect(readFileSync(join(ctx.getSetting<string>("dataDir"), "env.key"), "utf-8").trim()).toHaveLength(44)
+    expect(readdirSync(projectsDir).some((name) => name.includes("key"))).toBe(false)
+  })
+
+  test("agents receive the variables and secrets are redacted from transcripts", async () => {
+    harness = await createHarness({ fixtures: ["success", "success"] })
+    const { manager, runner } = harness
+    const { projectId } = await manager.createProject("Shop", "A store")
+    await waitFor(() => statusOf(manager, projectId) === "completed")
+
+    manager.setProjectEnv(projectId, "STRIPE_KEY", "sk_live_abc123")
+    await manager.openProject(projectId, "Wire up payments with sk_live_abc123")
+    expect(runner.last!.options.env).toEqual({ STRIPE_KEY: "sk_live_abc123" })
+
+    const { entries } = manager.getTranscript(projectId, { tail: true })
+    const task = entries.filter((e) => e.kind === "user").pop()!
+    expect(task.content).toContain("Wire up payments with [redacted STRIPE_KEY]")
+    expect(manager.redact(projectId, "key=sk_live_abc123")).toBe("key=[redacted STRIPE_KEY]")
+  })
+
+  test("secrets that JSON escapes are still redacted from tool input", async () => {
+    harness = await createHarness({ fixtures: ["success", "escaped-secret"] })
+    const { manager, db } = harness
+    const { projectId } = await manager.createProject("Shop", "A store")
+    await waitFor(() => statusOf(manager, projectId) === "completed")
+
+    manager.setProjectEnv(projectId, "API_TOKEN", 'pa"ss\\word')
+    await manager.openProject(projectId, "Call the API")
+    await waitFor(() => manager.getTranscript(projectId, { tail: true }).entries.some((e) => e.kind === "tool_result"))
+
+    const stored = db.query("SELECT data_json FROM pearbot_transcript WHERE kind = 'tool_use'").all() as { data_json: string }[]
+    expect(stored.map((row) => JSON.parse(row.data_json).input.command)).toContain("curl -H 'Authorization: [redacted API_TOKEN]'")
+    expect(stored.some((row) => row.data_json.includes("ss\\\\word"))).toBe(false)
+  })
+})
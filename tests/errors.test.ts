@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { toErrorResponse } from "../errors"
+import { createHarness, statusOf, waitFor, type Harness } from "./helpers"
+
+let harness: Harness | null = null
+
+afterEach(async () => {
+  await harness?.cleanup()
+  harness = null
+})
+
+async function responseFor(action: () => unknown) {
+  try {
+    await action()
+  } catch (error) {
+    return toErrorResponse(error)
+  }
+  throw new Error("Expected the action to fail")
+}
+
+describe("error model", () => {
+  test("manager failures carry an HTTP status and code", async () => {
+    harness = await createHarness({ fixtures: ["success"] })
+    const { manager } = harness
+
+    expect(await responseFor(() => manager.sendToProject("proj_missing", "hi"))).toEqual({
+      status: 404,
+      body: { error: "Project proj_missing not found", code: "not_found" },
+    })
+    const { projectId } = await manager.createProject("Landing", "A landing page")
+    await waitFor(() => statusOf(manager, projectId) === "completed")
+    expect((await responseFor(() => manager.setVerbosity(projectId, "loud" as never))).status).toBe(400)
+    expect((await responseFor(() => manager.stopServer(projectId))).body.code).toBe("conflict")
+    expect((await responseFor(() => manager.answerQuestion(projectId, "nope", { choice: "A" }))).status).toBe(404)
+  })
+
+  test("anything else is an internal error", () => {
+    expect(toErrorResponse(new Error("boom"))).toEqual({ status: 500, body: { error: "boom", code: "internal" } })
+  })
+})
@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { existsSync, utimesSync } from "fs"
+import { createHarness, statusOf, waitFor, type Harness } from "./helpers"
+
+let harness: Harness | null = null
+
+afterEach(async () => {
+  await harness?.cleanup()
+  harness = null
+})
+
+describe("exports", () => {
+  test("export files are removed with their project and once they age out", async () => {
+    harness = await createHarness({ fixtures: ["success", "success"], settings: { exportRetentionHours: 1 } })
+    const { manager } = harness
+    const shop = await manager.createProject("Shop", "A store")
+    const blog = await manager.createProject("Blog", "A blog")
+    await waitFor(() => statusOf(manager, shop.projectId) === "completed" && statusOf(manager, blog.projectId) === "completed")
+
+    const stale = await manager.exportProjectToFile(shop.projectId, "zip")
+    const old = new Date(Date.now() - 2 * 60 * 60 * 1000)
+    utimesSync(stale.path, old, old)
+    const shopExport = await manager.exportProjectToFile(shop.projectId, "tar.gz")
+    const blogExport = await manager.exportProjectToFile(blog.projectId, "zip")
+    expect(existsSync(stale.path)).toBe(false)
+    expect(existsSync(shopExport.path)).toBe(true)
+
+    await manager.deleteProject(shop.projectId)
+    expect(existsSync(shopExport.path)).toBe(false)
+    expect(existsSync(blogExport.path)).toBe(true)
+  })
+})
@@ -0,0 +1,78 @@
+import { Database } from "bun:sqlite"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { basename, join } from "path"
+import { PearBotManager } from "../manager"
+import type { PluginContext } from "../types"
+import { loadFixture, ScriptedRunner } from "./scripted-runner"
+
+export interface Harness {
+  manager: PearBotManager
+  runner: ScriptedRunner
+  ctx: PluginContext
+  db: Database
+  /** Everything the plugin sent to the main assistant */
+  messages: string[]
+  projectsDir: string
+  cleanup(): Promise<void>
+}
+
+/**
+ * A manager wired to an in-memory DB, a temp projects dir and a scripted
+ * runner that plays `fixtures` in spawn order. Verification is off unless
+ * a test turns it on.
+ */
+export async function createHarness(
+  options: { fixtures?: string[]; settings?: Record<string, unknown>; db?: Database; projectsDir?: string } = {}
+): Promise<Harness> {
+  const projectsDir = options.projectsDir ?? mkdtempSync(join(tmpdir(), "pearbot-test-"))
+  const db = options.db ?? new Database(":memory:")
+  const settings: Record<string, unknown> = {
+    projectsDir,
+    dataDir: join(projectsDir, "..", `${basename(projectsDir)}-data`),
+    verifyOnSuccess: false,
+    ...options.settings,
+  }
+  const messages: string[] = []
+
+  const ctx: PluginContext = {
+    pluginName: "pearbot",
+    getSetting: <T>(key: string) => settings[key] as T,
+    log: { info() {}, warn() {}, error() {} },
+    sendClaudeMessage: async (msg) => {
+      messages.push(msg)
+    },
+    getDb: () => db,
+  }
+
+  const runner = new ScriptedRunner((options.fixtures ?? []).map(loadFixture))
+  const manager = new PearBotManager(ctx, runner)
+  await manager.init()
+
+  return {
+    manager,
+    runner,
+    ctx,
+    db,
+    messages,
+    projectsDir,
+    async cleanup() {
+      await manager.stopAll()
+      if (!options.projectsDir) rmSync(projectsDir, { recursive: true, force: true })
+      rmSync(settings.dataDir as string, { recursive: true, force: true })
+    },
+  }
+}
+
+/** Poll until `predicate` holds, failing after `timeoutMs`. */
+export async function waitFor(predicate: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition")
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+export function statusOf(manager: PearBotManager, projectId: string) {
+  return manager.getStatus(projectId)[0]?.status
+}
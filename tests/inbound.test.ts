@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { createHmac } from "crypto"
+import { TriggerHandler } from "../inbound"
+import { createHarness, statusOf, waitFor, type Harness } from "./helpers"
+
+const SECRET = "hook-secret"
+
+let harness: Harness | null = null
+
+afterEach(async () => {
+  await harness?.cleanup()
+  harness = null
+})
+
+async function start(fixtures: string[], settings: Record<string, unknown> = {}) {
+  harness = await createHarness({ fixtures, settings: { inboundWebhookSecret: SECRET, ...settings } })
+  const triggers = new TriggerHandler(harness.ctx, harness.manager)
+  triggers.init()
+  const [generic] = triggers.webhooks()
+  const github = (event: string, body: unknown, secret = SECRET) => {
+    const raw = JSON.stringify(body)
+    const signature = "sha256=" + createHmac("sha256", secret).update(raw).digest("hex")
+    return triggers.handleGitHubDelivery(
+      new Request("http://localhost/github", {
+        method: "POST",
+        headers: { "content-type": "application/json", "x-github-event": event, "x-hub-signature-256": signature },
+        body: raw,
+      })
+    )
+  }
+  return { ...harness, generic: generic.handler, github }
+}
+
+const issue = (action: string, labels: string[], author_association = "OWNER", added?: string) => ({
+  action,
+  ...(added !== undefined ? { label: { name: added } } : {}),
+  issue: {
+    number: 7,
+    title: "Status page",
+    body: "A page listing service health.",
+    html_url: "https://github.com/acme/site/issues/7",
+    author_association,
+    labels: labels.map((name) => ({ name })),
+  },
+  repository: { full_name: "acme/site" },
+})
+
+describe("inbound triggers", () => {
+  test("requests without the shared secret are rejected", async () => {
+    const { generic, manager } = await start([])
+    const body = { name: "Landing", description: "A landing page" }
+
+    expect(await generic({ body, query: {}, headers: {} })).toEqual({ error: "Unauthorized" })
+    expect(await generic({ body, query: { secret: "wrong" }, headers: {} })).toEqual({ error: "Unauthorized" })
+    expect(manager.listAll()).toEqual([])
+  })
+
+  test("a generic payload creates a project, and its external id continues it", async () => {
+    const { generic, manager, runner } = await start(["success", "success"])
+    const headers = { "X-PearBot-Secret": SECRET }
+
+    const created = await generic({ body: { name: "Landing", description: "A landing page", external_id: "TICKET-1" }, query: {}, headers })
+    expect(created).toMatchObject({ action: "created", status: "creating" })
+    const projectId = (created as { projectId: string }).projectId
+    await waitFor(() => statusOf(manager, projectId) === "completed")
+
+    const opened = await generic({ body: { external_id: "TICKET-1", task: "Add a pricing section" }, query: {}, headers })
+    expect(opened).toEqual({ action: "opened", projectId, status: "building" })
+    expect(runner.last!.sent[0]).toContain("Add a pricing section")
+
+    expect(await generic({ body: { name: "No description" }, query: {}, headers })).toEqual({
+      error: "name and description are required to create a project",
+    })
+  })
+
+  test("labeled GitHub issues create projects and their comments become tasks", async () => {
+    const { github, manager, runner, db } = await start(["success", "success"])
+
+    expect(await github("issues", issue("opened", []))).toEqual({ ignored: 'issue is not labeled "pearbot"' })
+    const created = await github("issues", issue("labeled", ["pearbot"], "OWNER", "pearbot"))
+    expect(created).toMatchObject({ action: "created" })
+    const projectId = (created as { projectId: string }).projectId
+    expect(manager.getStatus(projectId)[0].name).toBe("Status page")
+    await waitFor(() => statusOf(manager, projectId) === "completed")
+
+    const comment = (author_association: string) => ({
+      ...issue("created", ["pearbot"]),
+      comment: { body: "Also show uptime", html_url: "https://github.com/acme/site/issues/7#c1", user: { type: "User" }, author_association },
+    })
+    expect(await github("issue_comment", comment("NONE"))).toEqual({
+      ignored: "comment author is NONE, not a trusted association",
+    })
+    expect(await github("issue_comment", comment("COLLABORATOR"))).toEqual({
+      action: "opened",
+      projectId,
+      status: "building",
+    })
+    expect(runner.last!.sent[0]).toContain("Follow-up from acme/site#7")
+    expect(runner.last!.sent[0]).toContain("Also show uptime")
+
+    await manager.deleteProject(projectId)
+    expect(db.query("SELECT * FROM pearbot_triggers").all()).toEqual([])
+  })
+
+  test("GitHub deliveries need a valid signature and a trusted author", async () => {
+    const { github, manager } = await start([])
+    await expect(github("issues", issue("labeled", ["pearbot"], "OWNER", "pearbot"), "wrong")).rejects.toThrow("X-Hub-Signature-256")
+    expect(await github("issues", issue("opened", ["pearbot"], "NONE"))).toEqual({
+      ignored: "issue author is NONE, not a trusted association",
+    })
+    expect(manager.listAll()).toEqual([])
+  })
+
+  test("an untrusted issue that arrived with the trigger label is not started by another label", async () => {
+    const { github, manager } = await start([])
+    expect(await github("issues", issue("labeled", ["pearbot", "bug"], "NONE", "bug"))).toEqual({
+      ignored: 'added label "bug" is not "pearbot"',
+    })
+    expect(manager.listAll()).toEqual([])
+  })
+
+  test("without a trigger label, labeled events never create projects", async () => {
+    const { github, manager } = await start([], { githubTriggerLabel: "" })
+    expect(await github("issues", issue("labeled", ["bug"], "NONE", "bug"))).toEqual({
+      ignored: "labeled events need a githubTriggerLabel",
+    })
+    expect(manager.listAll()).toEqual([])
+  })
+})
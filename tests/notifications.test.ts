@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import type { ProjectNotification } from "../types"
+import { createHarness, statusOf, waitFor, type Harness } from "./helpers"
+
+let harness: Harness | null = null
+
+afterEach(async () => {
+  await harness?.cleanup()
+  harness = null
+})
+
+describe("notification parsing", () => {
+  test("extracts status, phase and trimmed content; ignores untagged text", async () => {
+    harness = await createHarness({ fixtures: ["notifications"] })
+    const { manager } = harness
+    const seen: ProjectNotification[] = []
+    manager.on("notification", ({ notification }) => seen.push(notification))
+
+    const { projectId } = await manager.createProject("Notes", "Note app")
+    await waitFor(() => seen.length === 2)
+
+    expect(seen).toEqual([
+      { status: "progress", phase: "planning", content: "Planned three pages." },
+      { status: "progress", phase: undefined, content: "Installing packages" },
+    ])
+    expect(statusOf(manager, projectId)).toBe("building")
+  })
+
+  test("forwards notifications to the main assistant", async () => {
+    harness = await createHarness({ fixtures: ["clarify"] })
+    const { manager, messages } = harness
+
+    const { projectId } = await manager.createProject("Dashboard", "Admin dashboard")
+    await waitFor(() => messages.some((m) => m.includes("needs input")))
+
+    const clarify = messages.find((m) => m.includes("needs input"))!
+    expect(clarify).toContain("Sidebar or top navigation?")
+    expect(clarify).toContain(`pearbot_reply tool with project_id="${projectId}"`)
+  })
+
+  test("text around the tag stays in the transcript", async () => {
+    harness = await createHarness({ fixtures: ["clarify"] })
+    const { manager } = harness
+
+    const { projectId } = await manager.createProject("Dashboard", "Admin dashboard")
+    await waitFor(() => statusOf(manager, projectId) === "waiting_for_input")
+
+    const text = manager.getTranscript(projectId).entries.find((e) => e.kind === "assistant_text")
+    expect(text?.content).toStartWith("Before I start:")
+  })
+})
@@ -0,0 +1,72 @@
+import { Database } from "bun:sqlite"
+import { afterEach, describe, expect, test } from "bun:test"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { createHarness, statusOf, waitFor, type Harness } from "./helpers"
+
+const harnesses: Harness[] = []
+let projectsDir = ""
+
+afterEach(async () => {
+  for (const h of harnesses.splice(0)) await h.cleanup()
+  if (projectsDir) rmSync(projectsDir, { recursive: true, force: true })
+  projectsDir = ""
+})
+
+/** Two managers sharing one DB and projects dir, as across a restart. */
+async function restartable(db: Database, fixtures: string[], settings: Record<string, unknown> = {}) {
+  projectsDir ||= mkdtempSync(join(tmpdir(), "pearbot-test-"))
+  const h = await createHarness({ db, projectsDir, fixtures, settings })
+  harnesses.push(h)
+  return h
+}
+
+describe("DB persistence", () => {
+  test("projects, transcript and usage survive a restart", async () => {
+    const db = new Database(":memory:")
+    const before = await restartable(db, ["success"])
+    const { projectId } = await before.manager.createProject("Landing", "A landing page", "HTML")
+    await waitFor(() => statusOf(before.manager, projectId) === "completed")
+    await waitFor(() => before.manager.getStatus(projectId)[0].usage.turns === 2)
+
+    const after = await restartable(db, [])
+    const project = after.manager.getStatus(projectId)[0]
+    expect(project).toMatchObject({
+      name: "Landing",
+      techStack: "HTML",
+      status: "completed",
+      sessionId: "sess-success",
+      lastNotification: { status: "success", content: "The page is ready." },
+    })
+    expect(project.usage.inputTokens).toBe(1200)
+    expect(project.usage.costUsd).toBeCloseTo(0.05)
+
+    const kinds = after.manager.getTranscript(projectId).entries.map((e) => e.kind)
+    expect(kinds).toEqual(["user", "assistant_text", "tool_use", "tool_result", "assistant_text", "result"])
+    expect(after.manager.getSessionChain(projectId).map((s) => s.sessionId)).toEqual(["sess-success"])
+  })
+
+  test("a build interrupted by a restart comes back as stopped", async () => {
+    const db = new Database(":memory:")
+    const before = await restartable(db, ["silent"])
+    const { projectId } = await before.manager.createProject("Quiet", "Never finishes")
+    await waitFor(() => statusOf(before.manager, projectId) === "building")
+
+    const after = await restartable(db, [])
+    expect(statusOf(after.manager, projectId)).toBe("stopped")
+  })
+
+  test("the build queue is restored and resumed", async () => {
+    const db = new Database(":memory:")
+    const before = await restartable(db, ["silent"], { maxConcurrentBuilds: 1 })
+    await before.manager.createProject("First", "Runs first")
+    const queued = await before.manager.createProject("Second", "Waits")
+    expect(queued.status).toBe("queued")
+
+    // The first build is "stopped" after the restart, so the queued one gets the slot
+    const after = await restartable(db, ["success"], { maxConcurrentBuilds: 1 })
+    await waitFor(() => statusOf(after.manager, queued.projectId) === "completed")
+    expect(after.runner.agents[0].sent[0]).toContain('called "Second"')
+  })
+})
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { policyUpdateFromArgs } from "../policy"
+import { policyArgs } from "../runner"
+import { createHarness, statusOf, waitFor, type Harness } from "./helpers"
+
+let harness: Harness | null = null
+
+afterEach(async () => {
+  await harness?.cleanup()
+  harness = null
+})
+
+describe("agent policy", () => {
+  test("maps to CLI arguments", () => {
+    const none = { model: null, maxTurns: null, allowedTools: null, disallowedTools: null, systemPromptAppend: null }
+    expect(policyArgs(none)).toEqual(["--dangerously-skip-permissions"])
+    expect(policyArgs({ ...none, disallowedTools: ["Bash"], model: "sonnet", maxTurns: 30 })).toEqual([
+      "--dangerously-skip-permissions",
+      "--disallowedTools", "Bash",
+      "--model", "sonnet",
+      "--max-turns", "30",
+    ])
+    expect(policyArgs({ ...none, allowedTools: ["Read", "Grep"], systemPromptAppend: "Review only." })).toEqual([
+      "--allowedTools", "Read", "Grep",
+      "--append-system-prompt", "Review only.",
+    ])
+  })
+
+  test("defaults come from settings and create/open override them", async () => {
+    harness = await createHarness({
+      fixtures: ["success", "success"],
+      settings: { agentModel: "sonnet", agentDisallowedTools: "WebFetch, WebSearch" },
+    })
+    const { manager, runner } = harness
+
+    const { projectId } = await manager.createProject("Review", "Audit the code", undefined, {
+      agentPolicy: policyUpdateFromArgs({ allowed_tools: ["Read", "Grep", "Glob"], max_turns: 10 }),
+    })
+    expect(runner.last!.options.policy).toEqual({
+      model: "sonnet",
+      maxTurns: 10,
+      allowedTools: ["Read", "Grep", "Glob"],
+      disallowedTools: ["WebFetch", "WebSearch"],
+      systemPromptAppend: null,
+    })
+    await waitFor(() => statusOf(manager, projectId) === "completed")
+
+    await manager.openProject(projectId, "Now fix it", {
+      agentPolicy: policyUpdateFromArgs({ allowed_tools: null, disallowed_tools: ["Bash"] }),
+    })
+    expect(runner.last!.options.policy).toMatchObject({ model: "sonnet", maxTurns: 10, allowedTools: null, disallowedTools: ["Bash"] })
+    expect(manager.getStatus(projectId)[0].agentPolicy.disallowedTools).toEqual(["Bash"])
+  })
+
+  test("invalid policies are rejected", () => {
+    expect(() => policyUpdateFromArgs({ max_turns: 0 })).toThrow("positive integer")
+    expect(() => policyUpdateFromArgs({ allowed_tools: [] })).toThrow("at least one tool")
+    expect(() => policyUpdateFromArgs({ disallowed_tools: "Bash" })).toThrow("list of tool names")
+    expect(() => policyUpdateFromArgs({ disallowed_tools: ["bash"] })).toThrow('Unknown tool "bash"; did you mean "Bash"?')
+    expect(() => policyUpdateFromArgs({ allowed_tools: ["Shell(ls)"] })).toThrow('Unknown tool "Shell(ls)"')
+    expect(policyUpdateFromArgs({ allowed_tools: ["Read", "Bash(npm test:*)", "mcp__github__create_issue"] }).allowedTools).toEqual([
+      "Read", "Bash(npm test:*)", "mcp__github__create_issue",
+    ])
+  })
+})
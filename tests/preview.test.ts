@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { proxyHttp, stripTokenParam } from "../preview"
+import { createHarness, type Harness } from "./helpers"
+
+let server: ReturnType<typeof Bun.serve> | null = null
+let harness: Harness | null = null
+
+afterEach(async () => {
+  server?.stop(true)
+  server = null
+  await harness?.cleanup()
+  harness = null
+})
+
+describe("preview proxy", () => {
+  test("PearBot credentials never reach the dev server", async () => {
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch: (request) =>
+        Response.json(
+          { url: request.url, authorization: request.headers.get("authorization"), cookie: request.headers.get("cookie") },
+          { headers: { "set-cookie": "session=evil; Path=/" } }
+        ),
+    })
+
+    expect(stripTokenParam("?token=pbt_x&page=2")).toBe("?page=2")
+    expect(stripTokenParam("?token=pbt_x")).toBe("")
+
+    const request = new Request("http://localhost/preview/p1/app?token=pbt_x", {
+      headers: { authorization: "Bearer pbt_x", cookie: "pear_session=abc" },
+    })
+    const response = await proxyHttp(request, {
+      port: server.port!,
+      path: "/app" + stripTokenParam(new URL(request.url).search),
+      publicPrefix: "/preview/p1/",
+    })
+    expect(response.headers.get("set-cookie")).toBeNull()
+    const seen = (await response.json()) as Record<string, string | null>
+    expect(seen.url).toEndWith("/app")
+    expect(seen.authorization).toBeNull()
+    expect(seen.cookie).toBeNull()
+  })
+
+  test("served projects are reported at their preview URL", async () => {
+    harness = await createHarness({ settings: { publicBaseUrl: "https://pear.example/plugins/pearbot" } })
+    expect(harness.manager.serveUrl("p1", 4000)).toBe("https://pear.example/plugins/pearbot/preview/p1/")
+  })
+})
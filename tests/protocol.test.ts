@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test"
+import { NotificationParser, PROTOCOL_VERSION, protocolPrompt } from "../protocol"
+
+describe("notification protocol parser", () => {
+  test("reads several tags with attributes in any order", () => {
+    const parser = new NotificationParser()
+    const { notifications, errors } = parser.push(
+      `<pearbot phase='coding' progress="40%" status="progress" eta="10m">API done</pearbot> then ` +
+        `<pearbot status="clarify">Sidebar or top nav?</pearbot>`
+    )
+    expect(errors).toEqual([])
+    expect(notifications).toEqual([
+      { status: "progress", phase: "coding", progress: 40, eta: "10m", content: "API done" },
+      { status: "clarify", phase: undefined, content: "Sidebar or top nav?" },
+    ])
+  })
+
+  test("reassembles a tag split across pushes", () => {
+    const parser = new NotificationParser()
+    expect(parser.push("Starting. <pear").notifications).toEqual([])
+    expect(parser.push(`bot status="success">All `).notifications).toEqual([])
+    const { notifications } = parser.push("done.</pearbot> Bye.")
+    expect(notifications).toEqual([{ status: "success", phase: undefined, content: "All done." }])
+  })
+
+  test("reads structured clarify questions", () => {
+    const parser = new NotificationParser()
+    const before = Date.now()
+    const [question] = parser.push(
+      `<pearbot status="clarify" id="layout" options="Sidebar | Top nav" default="Sidebar" deadline="10m">Layout?</pearbot>`
+    ).notifications
+    expect(question).toMatchObject({ questionId: "layout", options: ["Sidebar", "Top nav"], default: "Sidebar" })
+    expect(new Date(question.deadline!).getTime() - before).toBeGreaterThanOrEqual(10 * 60 * 1000)
+
+    const { errors } = parser.push(`<pearbot status="clarify" options="A|B" default="C">?</pearbot>`)
+    expect(errors[0]).toContain('default "C" is not one of the options')
+  })
+
+  test("rejects invalid tags instead of guessing", () => {
+    const parser = new NotificationParser()
+    const { notifications, errors } = parser.push(
+      `<pearbot status="finished">x</pearbot>` +
+        `<pearbot phase="coding">x</pearbot>` +
+        `<pearbot status="progress" progress="150">x</pearbot>` +
+        `<pearbot status="progress" version="${PROTOCOL_VERSION + 1}">x</pearbot>` +
+        `<pearbot status="progress" phase=coding>x</pearbot>`
+    )
+    expect(notifications).toEqual([])
+    expect(errors).toHaveLength(5)
+    expect(errors[0]).toContain('unknown status "finished"')
+    expect(errors[1]).toContain("missing status")
+  })
+
+  test("an unclosed tag is reported on flush", () => {
+    const parser = new NotificationParser()
+    expect(parser.push(`<pearbot status="progress">never closed`).errors).toEqual([])
+    expect(parser.flush().errors[0]).toContain("without closing")
+    expect(parser.flush().errors).toEqual([])
+  })
+
+  test("the agent prompt documents every status", () => {
+    const prompt = protocolPrompt()
+    for (const status of ["progress", "clarify", "success", "failed"]) expect(prompt).toContain(`\`${status}\``)
+    expect(prompt).toContain(`version ${PROTOCOL_VERSION}`)
+  })
+})
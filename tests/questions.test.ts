@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { createHarness, statusOf, waitFor, type Harness } from "./helpers"
+
+let harness: Harness | null = null
+
+afterEach(async () => {
+  await harness?.cleanup()
+  harness = null
+})
+
+describe("structured questions", () => {
+  test("answers are sent together once every question is answered", async () => {
+    harness = await createHarness({ fixtures: ["questions"] })
+    const { manager, runner, messages } = harness
+
+    const { projectId } = await manager.createProject("Dashboard", "Admin dashboard")
+    await waitFor(() => manager.getQuestions(projectId).length === 2)
+    expect(statusOf(manager, projectId)).toBe("waiting_for_input")
+    expect(messages.find((m) => m.includes("Which layout?"))).toContain('question_id="layout"')
+
+    const first = await manager.answerQuestion(projectId, "layout", { choice: "2", note: "keep it sticky" })
+    expect(first.pendingQuestions).toEqual(["auth"])
+    expect(runner.last!.sent).toHaveLength(1)
+
+    await expect(manager.answerQuestion(projectId, "auth", { choice: "SAML" })).rejects.toThrow("not an option")
+    const second = await manager.answerQuestion(projectId, undefined, { choice: "oauth" })
+    expect(second).toEqual({ status: "building", pendingQuestions: [] })
+
+    const reply = runner.last!.sent[1]
+    expect(reply).toContain("[layout] Which layout?\n  Answer: Top navigation\n  Note: keep it sticky")
+    expect(reply).toContain("[auth] How do users sign in?\n  Answer: OAuth")
+    await waitFor(() => statusOf(manager, projectId) === "completed")
+
+    const history = manager.getQuestions(projectId)
+    expect(history.map((q) => [q.id, q.status, q.answer])).toEqual([
+      ["layout", "answered", "Top navigation"],
+      ["auth", "answered", "OAuth"],
+    ])
+  })
+
+  test("the default is applied when the deadline passes", async () => {
+    // 0.005 min = 300 ms for questions with a default and no deadline of their own
+    harness = await createHarness({ fixtures: ["questions"], settings: { clarifyDefaultDeadlineMinutes: 0.005 } })
+    const { manager, runner, messages } = harness
+
+    const { projectId } = await manager.createProject("Dashboard", "Admin dashboard")
+    await waitFor(() => manager.getQuestions(projectId).length === 2)
+    await manager.answerQuestion(projectId, "layout", { choice: "Sidebar" })
+
+    await waitFor(() => runner.last!.sent.length === 2)
+    expect(runner.last!.sent[1]).toContain('go with the default "Email"')
+    expect(messages.some((m) => m.includes("no reply to question auth"))).toBe(true)
+    expect(manager.getQuestions(projectId).find((q) => q.id === "auth")?.status).toBe("defaulted")
+  })
+
+  test("a free-text reply answers every pending question", async () => {
+    harness = await createHarness({ fixtures: ["questions"] })
+    const { manager, runner } = harness
+
+    const { projectId } = await manager.createProject("Dashboard", "Admin dashboard")
+    await waitFor(() => manager.getQuestions(projectId).length === 2)
+    await manager.sendToProject(projectId, "Sidebar, and no login for now")
+
+    expect(runner.last!.sent[1]).toBe("Sidebar, and no login for now")
+    expect(manager.getQuestions(projectId).every((q) => q.status === "answered")).toBe(true)
+  })
+})
@@ -0,0 +1,38 @@
+import { Database } from "bun:sqlite"
+import { afterEach, describe, expect, jest, test } from "bun:test"
+import { createHarness, statusOf, waitFor, type Harness } from "./helpers"
+
+const harnesses: Harness[] = []
+
+afterEach(async () => {
+  jest.useRealTimers()
+  for (const h of harnesses.splice(0)) await h.cleanup()
+})
+
+describe("waiting-for-input reminders", () => {
+  test("projects waiting on a reply are re-announced every 10 minutes", async () => {
+    // Reach waiting_for_input on real timers, then restart under fake ones
+    const db = new Database(":memory:")
+    const first = await createHarness({ db, fixtures: ["clarify", "success"] })
+    harnesses.push(first)
+    const waiting = await first.manager.createProject("Dashboard", "Admin dashboard")
+    const done = await first.manager.createProject("Landing", "A landing page")
+    await waitFor(() => statusOf(first.manager, waiting.projectId) === "waiting_for_input")
+    await waitFor(() => statusOf(first.manager, done.projectId) === "completed")
+
+    jest.useFakeTimers()
+    const second = await createHarness({ db, projectsDir: first.projectsDir })
+    harnesses.push(second)
+
+    jest.advanceTimersByTime(9 * 60 * 1000)
+    expect(second.messages.filter((m) => m.includes("REMINDER"))).toHaveLength(0)
+
+    jest.advanceTimersByTime(60 * 1000)
+    const reminders = second.messages.filter((m) => m.includes("REMINDER"))
+    expect(reminders).toHaveLength(1)
+    expect(reminders[0]).toContain("1 PearBot project(s) waiting for input")
+    expect(reminders[0]).toContain(waiting.projectId)
+    expect(reminders[0]).toContain("Sidebar or top navigation?")
+    expect(reminders[0]).not.toContain(done.projectId)
+  })
+})
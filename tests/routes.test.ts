@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { Database } from "bun:sqlite"
+import { Elysia } from "elysia"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { activate, deactivate } from "../index"
+import type { PluginContext, PluginRegistrations } from "../types"
+
+let dir: string | null = null
+
+afterEach(async () => {
+  await deactivate()
+  if (dir) rmSync(dir, { recursive: true, force: true })
+  dir = null
+})
+
+async function start() {
+  dir = mkdtempSync(join(tmpdir(), "pearbot-routes-"))
+  const settings: Record<string, unknown> = {
+    projectsDir: join(dir, "projects"),
+    dataDir: join(dir, "data"),
+    verifyOnSuccess: false,
+  }
+  const ctx: PluginContext = {
+    pluginName: "pearbot",
+    getSetting: <T>(key: string) => settings[key] as T,
+    log: { info() {}, warn() {}, error() {} },
+    sendClaudeMessage: async () => {},
+    getDb: () => db,
+  }
+  const db = new Database(":memory:")
+  const registrations: PluginRegistrations = await activate(ctx)
+  const app = registrations.routes!(ctx) as Elysia
+  const tokenTool = registrations.tools!.find((tool) => tool.definition.name === "pearbot_token")!
+  const mint = async (...scopes: string[]) => {
+    const result = await tokenTool.handler({ action: "mint", name: "test", scopes })
+    return result.content[0].text.match(/pbt_\S+/)![0]
+  }
+  // Mounted under a prefix, as a host may do
+  const host = new Elysia({ prefix: "/plugins/pearbot" }).use(app)
+  const call = (method: string, path: string, token?: string, body?: unknown) =>
+    host.handle(
+      new Request(`http://localhost/plugins/pearbot${path}`, {
+        method,
+        headers: {
+          ...(token ? { authorization: `Bearer ${token}` } : {}),
+          ...(body !== undefined ? { "content-type": "application/json" } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      })
+    )
+  return { app, mint, call }
+}
+
+describe("REST routes", () => {
+  test("every API route needs a token; only preview and /github are open", async () => {
+    const { app, call } = await start()
+    const open: string[] = []
+    for (const route of app.routes) {
+      if (route.method === "WS") continue
+      const path = route.path.replace(":id", "p1").replace(":name", "KEY").replace("*", "file")
+      const response = await call(route.method === "ALL" ? "GET" : route.method, path)
+      if (response.status !== 401) open.push(`${route.method} ${route.path}`)
+    }
+    expect(open.sort()).toEqual(["ALL /preview/:id", "ALL /preview/:id/*", "POST /github"])
+  })
+
+  test("scopes are enforced under a prefix, and calls are audited", async () => {
+    const { mint, call } = await start()
+    const read = await mint("read")
+    const build = await mint("build")
+    const admin = await mint("admin")
+
+    expect((await call("GET", "/projects", read)).status).toBe(200)
+    expect((await call("DELETE", "/projects/p1", build)).status).toBe(403)
+    expect((await call("POST", "/retention/apply", build)).status).toBe(403)
+    expect((await call("POST", "/projects/p1/serve", build)).status).toBe(403)
+    expect((await call("POST", "/projects/p1/open", read, {})).status).toBe(403)
+    expect((await call("DELETE", "/projects/p1", admin)).status).toBe(404)
+    // Changing the agent policy takes admin on top of build
+    const reopen = { task: "Fix it", agent_policy: { allowed_tools: null } }
+    expect((await call("POST", "/projects/p1/open", build, reopen)).status).toBe(403)
+    expect((await call("POST", "/projects/p1/open", admin, reopen)).status).toBe(404)
+
+    // Responses are audited after they are sent
+    await Bun.sleep(20)
+    const audit = await (await call("GET", "/audit", admin)).json()
+    expect(audit.entries.map((e: { method: string; scope: string; status: number }) => [e.method, e.scope, e.status])).toEqual([
+      ["POST", "admin", 404],
+      ["POST", "admin", 403],
+      ["DELETE", "admin", 404],
+      ["POST", "build", 403],
+      ["POST", "serve", 403],
+      ["POST", "admin", 403],
+      ["DELETE", "admin", 403],
+      ["GET", "read", 200],
+    ])
+  })
+
+  test("numeric query parameters are validated", async () => {
+    const { mint, call } = await start()
+    const read = await mint("read")
+
+    expect((await call("GET", "/projects/p1/transcript?cursor=abc", read)).status).toBe(400)
+    expect((await call("GET", "/projects/p1/transcript?limit=0", read)).status).toBe(400)
+    expect((await call("GET", "/projects/p1/activity?limit=2.5", read)).status).toBe(400)
+    expect((await call("GET", "/projects/p1/transcript?cursor=3&limit=10", read)).status).toBe(404)
+    // Unauthenticated requests are still refused before validation
+    expect((await call("GET", "/projects/p1/transcript?cursor=abc")).status).toBe(401)
+  })
+})
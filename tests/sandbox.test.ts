@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { spawn } from "bun"
+import { existsSync, mkdirSync } from "fs"
+import { homedir } from "os"
+import { join } from "path"
+import { Sandbox, scrubEnv } from "../sandbox"
+import { createHarness, statusOf, waitFor, type Harness } from "./helpers"
+
+let harness: Harness | null = null
+
+afterEach(async () => {
+  await harness?.cleanup()
+  harness = null
+})
+
+const limits = { cpuSeconds: 1, memoryMb: 512, maxProcesses: 0 }
+const hasPrlimit = new Sandbox("rlimit", [], limits).limited
+
+async function run(sandbox: Sandbox, command: string[]) {
+  const { command: wrapped, env } = sandbox.wrap(command, { writableDir: process.cwd(), cwd: process.cwd() })
+  const proc = spawn(wrapped, { env, stdout: "pipe", stderr: "pipe" })
+  const [exitCode, output] = await Promise.all([proc.exited, new Response(proc.stdout).text()])
+  return { exitCode, output }
+}
+
+describe("sandbox", () => {
+  test("only allowlisted variables reach the process", async () => {
+    expect(scrubEnv({ PATH: "/bin", LC_ALL: "C", AWS_SECRET_ACCESS_KEY: "x" }, ["PATH", "LC_*"])).toEqual({
+      PATH: "/bin",
+      LC_ALL: "C",
+    })
+
+    process.env.PEARBOT_TEST_SECRET = "hunter2"
+    try {
+      const sandbox = new Sandbox("rlimit", ["PATH"], limits)
+      const { output } = await run(sandbox, ["sh", "-c", 'echo "secret=$PEARBOT_TEST_SECRET"'])
+      expect(output.trim()).toBe("secret=")
+    } finally {
+      delete process.env.PEARBOT_TEST_SECRET
+    }
+
+    const hostKey = process.env.ANTHROPIC_API_KEY
+    process.env.ANTHROPIC_API_KEY = "sk-host"
+    try {
+      const { env } = new Sandbox("rlimit", ["PATH"], limits).wrap(["true"], {
+        writableDir: process.cwd(),
+        cwd: process.cwd(),
+        allowEnv: ["ANTHROPIC_*"],
+        env: { ANTHROPIC_API_KEY: "sk-project", ANTHROPIC_BASE_URL: "https://evil.example", APP_KEY: "x" },
+      })
+      expect(env.ANTHROPIC_API_KEY).toBe("sk-host")
+      expect(env.ANTHROPIC_BASE_URL).not.toBe("https://evil.example")
+      expect(env.APP_KEY).toBe("x")
+    } finally {
+      if (hostKey === undefined) delete process.env.ANTHROPIC_API_KEY
+      else process.env.ANTHROPIC_API_KEY = hostKey
+    }
+  })
+
+  test("each project's agents get their own CLI config directory", async () => {
+    harness = await createHarness({ fixtures: ["success"] })
+    const { manager, runner, ctx } = harness
+
+    const { projectId } = await manager.createProject("Landing", "A landing page")
+    const configDir = runner.last!.options.configDir
+    expect(configDir).toBe(join(ctx.getSetting<string>("dataDir"), "agents", projectId))
+    expect(configDir.startsWith(join(homedir(), ".claude"))).toBe(false)
+
+    await waitFor(() => statusOf(manager, projectId) === "completed")
+    mkdirSync(configDir, { recursive: true })
+    await manager.deleteProject(projectId)
+    expect(existsSync(configDir)).toBe(false)
+  })
+
+  test.skipIf(!hasPrlimit)("a process over its CPU limit is reported", async () => {
+    const sandbox = new Sandbox("rlimit", ["PATH"], limits)
+    const { exitCode } = await run(sandbox, ["sh", "-c", "while :; do :; done"])
+    expect(sandbox.describeViolation(exitCode, "")).toBe("exceeded the CPU time limit of 1s")
+    expect(sandbox.describeViolation(1, "")).toBeNull()
+  }, 20_000)
+
+  test.skipIf(!hasPrlimit)("an agent killed by a limit fails the project with a notification", async () => {
+    harness = await createHarness({ fixtures: ["crash"], settings: { sandboxMode: "rlimit", sandboxMemoryMb: 2048 } })
+    const { manager, messages } = harness
+
+    const { projectId } = await manager.createProject("Crashy", "Crashes")
+    await waitFor(() => statusOf(manager, projectId) === "failed")
+    expect(manager.getStatus(projectId)[0].lastNotification).toEqual({
+      status: "failed",
+      content: "Agent stopped: it ran out of memory under the 2048 MB limit.",
+    })
+    await waitFor(() => messages.some((m) => m.includes("ran out of memory")))
+  })
+})
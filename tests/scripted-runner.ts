@@ -0,0 +1,133 @@
+import { readFileSync } from "fs"
+import { join } from "path"
+import type { AgentHandle, AgentMessage, AgentRunner, AgentSpawnOptions } from "../runner"
+
+/**
+ * An AgentRunner that replays NDJSON fixtures instead of running the CLI.
+ * Each line is a stream-json message, or one of these directives:
+ *
+ *   {"$wait": true}        wait for the next send()
+ *   {"$sleep": 50}         pause for 50 ms
+ *   {"$stderr": "text"}    write a diagnostic line
+ *   {"$exit": 1}           exit with the given code
+ *
+ * After the last line the agent stays alive, like the CLI waiting on stdin.
+ */
+
+export type ScriptStep = AgentMessage
+
+export function loadFixture(name: string): ScriptStep[] {
+  return readFileSync(join(import.meta.dir, "fixtures", `${name}.ndjson`), "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line))
+}
+
+/** Minimal async queue: push from one side, iterate from the other. */
+class Channel<T> implements AsyncIterable<T> {
+  private items: T[] = []
+  private waiters: ((result: IteratorResult<T>) => void)[] = []
+  private closed = false
+
+  push(item: T): void {
+    if (this.closed) return
+    const waiter = this.waiters.shift()
+    if (waiter) waiter({ value: item, done: false })
+    else this.items.push(item)
+  }
+
+  close(): void {
+    this.closed = true
+    for (const waiter of this.waiters.splice(0)) waiter({ value: undefined, done: true })
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.items.length > 0) return Promise.resolve({ value: this.items.shift()!, done: false })
+    if (this.closed) return Promise.resolve({ value: undefined, done: true })
+    return new Promise((resolve) => this.waiters.push(resolve))
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return { next: () => this.next() }
+  }
+}
+
+export class ScriptedAgent implements AgentHandle {
+  readonly sent: string[] = []
+  interrupts = 0
+  killed = false
+  readonly exited: Promise<number>
+  readonly ready = Promise.resolve()
+
+  private output = new Channel<AgentMessage>()
+  private stderr = new Channel<string>()
+  private input = new Channel<string>()
+  private resolveExit!: (code: number) => void
+  private done = false
+
+  constructor(readonly options: AgentSpawnOptions, script: ScriptStep[]) {
+    this.exited = new Promise((resolve) => { this.resolveExit = resolve })
+    this.play(script)
+  }
+
+  get messages(): AsyncIterable<AgentMessage> {
+    return this.output
+  }
+
+  get diagnostics(): AsyncIterable<string> {
+    return this.stderr
+  }
+
+  send(text: string): void {
+    if (this.done) throw new Error("Agent has exited")
+    this.sent.push(text)
+    this.input.push(text)
+  }
+
+  interrupt(): void {
+    this.interrupts++
+  }
+
+  kill(): void {
+    this.killed = true
+    this.exit(143)
+  }
+
+  private async play(script: ScriptStep[]): Promise<void> {
+    for (const step of script) {
+      if (this.done) return
+      const { $sleep, $stderr, $exit } = step
+      if ("$wait" in step) await this.input.next()
+      else if (typeof $sleep === "number") await new Promise((resolve) => setTimeout(resolve, $sleep))
+      else if (typeof $stderr === "string") this.stderr.push($stderr)
+      else if (typeof $exit === "number") return this.exit($exit)
+      else this.output.push(step)
+    }
+  }
+
+  private exit(code: number): void {
+    if (this.done) return
+    this.done = true
+    this.output.close()
+    this.stderr.close()
+    this.input.close()
+    this.resolveExit(code)
+  }
+}
+
+export class ScriptedRunner implements AgentRunner {
+  readonly agents: ScriptedAgent[] = []
+
+  /** Scripts are handed out in spawn order; extra spawns get an empty script. */
+  constructor(private scripts: ScriptStep[][] = []) {}
+
+  spawn(options: AgentSpawnOptions): ScriptedAgent {
+    const agent = new ScriptedAgent(options, this.scripts.shift() ?? [])
+    this.agents.push(agent)
+    return agent
+  }
+
+  get last(): ScriptedAgent | undefined {
+    return this.agents[this.agents.length - 1]
+  }
+}
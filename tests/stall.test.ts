@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { createHarness, statusOf, waitFor, type Harness } from "./helpers"
+
+let harness: Harness | null = null
+
+afterEach(async () => {
+  await harness?.cleanup()
+  harness = null
+})
+
+// 0.005 min = 300 ms of silence before the agent is stopped
+const FAST_STALL = { agentIdleTimeoutMinutes: 0.005, agentRunTimeoutMinutes: 0, stallCheckIntervalSeconds: 0.02 }
+
+describe("stall handling", () => {
+  test("warns, then stops an agent that goes quiet", async () => {
+    harness = await createHarness({ fixtures: ["silent"], settings: FAST_STALL })
+    const { manager, runner, messages } = harness
+
+    const { projectId } = await manager.createProject("Quiet", "Never finishes")
+    await waitFor(() => statusOf(manager, projectId) === "failed")
+
+    const warning = messages.findIndex((m) => m.includes("looks stalled"))
+    const failure = messages.findIndex((m) => m.includes("failed: Agent stopped: no output"))
+    expect(warning).toBeGreaterThanOrEqual(0)
+    expect(failure).toBeGreaterThan(warning)
+    expect(runner.last?.killed).toBe(true)
+  })
+
+  test("pearbot_extend pushes the deadline back", async () => {
+    harness = await createHarness({ fixtures: ["silent"], settings: FAST_STALL })
+    const { manager, messages } = harness
+
+    const { projectId } = await manager.createProject("Quiet", "Never finishes")
+    await waitFor(() => messages.some((m) => m.includes("looks stalled")))
+
+    const { idleDeadline, runDeadline } = manager.extendProject(projectId, 0.02)
+    expect(runDeadline).toBeNull()
+    expect(new Date(idleDeadline!).getTime()).toBeGreaterThan(Date.now() + 600)
+
+    await new Promise((resolve) => setTimeout(resolve, 400))
+    expect(statusOf(manager, projectId)).toBe("building")
+  })
+
+  test("waiting for a reply is not a stall", async () => {
+    harness = await createHarness({ fixtures: ["clarify"], settings: FAST_STALL })
+    const { manager, messages } = harness
+
+    const { projectId } = await manager.createProject("Dashboard", "Admin dashboard")
+    await waitFor(() => statusOf(manager, projectId) === "waiting_for_input")
+
+    await new Promise((resolve) => setTimeout(resolve, 500))
+    expect(statusOf(manager, projectId)).toBe("waiting_for_input")
+    expect(messages.some((m) => m.includes("looks stalled"))).toBe(false)
+  })
+
+  test("extending a project without a running agent fails", async () => {
+    harness = await createHarness({ fixtures: ["failed"] })
+    const { manager } = harness
+
+    const { projectId } = await manager.createProject("Impossible", "Uses a missing API")
+    await manager.stopProject(projectId)
+    expect(() => manager.extendProject(projectId, 10)).toThrow("agent not running")
+  })
+})
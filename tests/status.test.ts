@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { createHarness, statusOf, waitFor, type Harness } from "./helpers"
+
+let harness: Harness | null = null
+
+afterEach(async () => {
+  await harness?.cleanup()
+  harness = null
+})
+
+describe("project status machine", () => {
+  test("create → building → completed when the agent reports success", async () => {
+    harness = await createHarness({ fixtures: ["success"] })
+    const { manager, runner } = harness
+
+    const { projectId, status } = await manager.createProject("Landing", "A landing page")
+    expect(status).toBe("creating")
+    expect(runner.last?.sent[0]).toContain('Build a complete project called "Landing"')
+
+    await waitFor(() => statusOf(manager, projectId) === "completed")
+    const project = manager.getStatus(projectId)[0]
+    expect(project.sessionId).toBe("sess-success")
+    expect(project.lastNotification).toEqual({ status: "success", phase: undefined, content: "The page is ready." })
+  })
+
+  test("clarify waits for input and a reply resumes building", async () => {
+    harness = await createHarness({ fixtures: ["clarify"] })
+    const { manager, runner } = harness
+
+    const { projectId } = await manager.createProject("Dashboard", "Admin dashboard")
+    await waitFor(() => statusOf(manager, projectId) === "waiting_for_input")
+    expect(manager.getStatus(projectId)[0].waitingSince).not.toBeNull()
+
+    const reply = await manager.sendToProject(projectId, "Sidebar, please")
+    expect(reply.status).toBe("building")
+    expect(runner.last?.sent).toContain("Sidebar, please")
+    expect(manager.getStatus(projectId)[0].waitingSince).toBeNull()
+
+    await waitFor(() => statusOf(manager, projectId) === "completed")
+  })
+
+  test("a failed notification marks the project failed", async () => {
+    harness = await createHarness({ fixtures: ["failed"] })
+    const { manager } = harness
+
+    const { projectId } = await manager.createProject("Impossible", "Uses a missing API")
+    await waitFor(() => statusOf(manager, projectId) === "failed")
+    expect(manager.getStatus(projectId)[0].lastNotification?.content).toBe("The requested API does not exist.")
+  })
+
+  test("an agent that exits non-zero mid-build fails the project", async () => {
+    harness = await createHarness({ fixtures: ["crash"] })
+    const { manager } = harness
+
+    const { projectId } = await manager.createProject("Crashy", "Crashes")
+    await waitFor(() => statusOf(manager, projectId) === "failed")
+    const stderr = manager.getTranscript(projectId).entries.filter((e) => e.kind === "stderr")
+    expect(stderr.map((e) => e.content)).toEqual(["fatal: out of memory"])
+  })
+
+  test("stopping kills the agent and marks the project stopped", async () => {
+    harness = await createHarness({ fixtures: ["silent"] })
+    const { manager, runner } = harness
+
+    const { projectId } = await manager.createProject("Quiet", "Never finishes")
+    await waitFor(() => statusOf(manager, projectId) === "building")
+
+    expect(await manager.stopProject(projectId)).toEqual({ stopped: true })
+    expect(runner.last?.killed).toBe(true)
+    expect(statusOf(manager, projectId)).toBe("stopped")
+  })
+
+  test("builds beyond maxConcurrentBuilds are queued and start when a slot frees", async () => {
+    harness = await createHarness({ fixtures: ["silent", "success"], settings: { maxConcurrentBuilds: 1 } })
+    const { manager } = harness
+
+    const first = await manager.createProject("First", "Runs first")
+    const second = await manager.createProject("Second", "Waits")
+    expect(second.status).toBe("queued")
+    expect(manager.getQueue().map((job) => job.projectId)).toEqual([second.projectId])
+
+    await manager.stopProject(first.projectId)
+    await waitFor(() => statusOf(manager, second.projectId) === "completed")
+    expect(manager.getQueue()).toEqual([])
+  })
+})
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { ProgressThrottle } from "../throttle"
+import type { ProjectNotification } from "../types"
+import { createHarness, waitFor, type Harness } from "./helpers"
+
+const progress = (content: string, phase?: string): ProjectNotification => ({ status: "progress", phase, content })
+
+let harness: Harness | null = null
+
+afterEach(async () => {
+  await harness?.cleanup()
+  harness = null
+})
+
+describe("progress throttle", () => {
+  test("holds updates inside the per-project interval and coalesces them", () => {
+    const throttle = new ProgressThrottle({ minIntervalMs: 60_000, maxPerMinute: 0 })
+    expect(throttle.admit("a", progress("one", "planning"), 0)).toBe(true)
+    expect(throttle.admit("a", progress("two", "coding"), 10_000)).toBe(false)
+    expect(throttle.admit("a", progress("three", "styling"), 20_000)).toBe(false)
+    expect(throttle.admit("b", progress("other"), 20_000)).toBe(true)
+
+    expect(throttle.drain(30_000)).toEqual([
+      { projectId: "a", latest: progress("three", "styling"), coalesced: 1, phases: ["coding", "styling"] },
+    ])
+    // Draining counts as sending, so the interval restarts
+    expect(throttle.admit("a", progress("four"), 60_000)).toBe(false)
+    expect(throttle.admit("a", progress("five"), 90_000)).toBe(true)
+    expect(throttle.drain(90_000)).toEqual([])
+  })
+
+  test("applies the global per-minute limit across projects", () => {
+    const throttle = new ProgressThrottle({ minIntervalMs: 0, maxPerMinute: 2 })
+    expect(throttle.admit("a", progress("1"), 0)).toBe(true)
+    expect(throttle.admit("b", progress("2"), 1000)).toBe(true)
+    expect(throttle.admit("c", progress("3"), 2000)).toBe(false)
+    expect(throttle.admit("c", progress("4"), 61_000)).toBe(true)
+  })
+})
+
+describe("notification verbosity", () => {
+  test("final-only projects post only questions and results", async () => {
+    harness = await createHarness({ fixtures: ["notifications"], settings: { progressMinIntervalSeconds: 0 } })
+    const { manager, messages } = harness
+    const seen: string[] = []
+    manager.on("notification", ({ notification }) => seen.push(notification.content))
+
+    await manager.createProject("Quiet", "Note app", undefined, { verbosity: "final-only" })
+    await waitFor(() => seen.length === 2)
+    expect(messages.filter((m) => m.includes("progress"))).toEqual([])
+  })
+
+  test("milestones posts phase changes only", async () => {
+    harness = await createHarness({ fixtures: ["notifications"], settings: { progressMinIntervalSeconds: 0 } })
+    const { manager, messages } = harness
+    const seen: string[] = []
+    manager.on("notification", ({ notification }) => seen.push(notification.content))
+
+    await manager.createProject("Notes", "Note app", undefined, { verbosity: "milestones" })
+    await waitFor(() => seen.length === 2)
+    const posted = messages.filter((m) => m.includes("progress"))
+    expect(posted).toHaveLength(1)
+    expect(posted[0]).toContain("[planning]: Planned three pages.")
+  })
+})
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { TokenStore } from "../tokens"
+import { createHarness, type Harness } from "./helpers"
+
+let harness: Harness | null = null
+
+afterEach(async () => {
+  await harness?.cleanup()
+  harness = null
+})
+
+async function createStore(): Promise<TokenStore> {
+  harness = await createHarness()
+  const store = new TokenStore(harness.ctx)
+  store.init()
+  return store
+}
+
+function request(method: string, path: string, token?: string): Request {
+  return new Request(`http://localhost${path}`, {
+    method,
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  })
+}
+
+describe("API tokens", () => {
+  test("tokens are checked against the route's scope and audited", async () => {
+    const store = await createStore()
+    const { token, record } = store.mint("dashboard", ["read", "read"])
+    expect(record.scopes).toEqual(["read"])
+    expect(() => store.mint("bad", ["root"])).toThrow("Unknown scope")
+
+    expect(() => store.authorize(request("GET", "/projects"), "read")).toThrow("An API token is required")
+    const allowed = request("GET", "/projects", token)
+    expect(store.authorize(allowed, "read").id).toBe(record.id)
+    store.recordResponse(allowed, 200)
+
+    const denied = request("POST", "/projects", token)
+    expect(() => store.authorize(denied, "build")).toThrow('lacks the "build" scope')
+    store.recordResponse(denied, 403)
+
+    const viaQuery = new Request(`http://localhost/events?token=${token}`)
+    expect(store.authorize(viaQuery, "read").id).toBe(record.id)
+
+    expect(store.getAudit().map((e) => [e.method, e.path, e.scope, e.status])).toEqual([
+      ["POST", "/projects", "build", 403],
+      ["GET", "/projects", "read", 200],
+    ])
+    expect(store.list()[0].lastUsedAt).not.toBeNull()
+
+    store.revoke(record.id)
+    expect(() => store.authorize(request("GET", "/projects", token), "read")).toThrow("revoked")
+  })
+
+  test("admin grants every scope", async () => {
+    const store = await createStore()
+    const { token } = store.mint("owner", ["admin"])
+    expect(() => store.authorize(request("DELETE", "/projects/p1/serve", token), "serve")).not.toThrow()
+  })
+})
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { signPayload, WebhookDispatcher } from "../webhooks"
+import { createHarness, statusOf, waitFor, type Harness } from "./helpers"
+
+const SECRET = "s3cret"
+
+interface Received {
+  headers: Headers
+  body: string
+}
+
+let harness: Harness | null = null
+let dispatcher: WebhookDispatcher | null = null
+let receiver: ReturnType<typeof Bun.serve> | null = null
+
+afterEach(async () => {
+  await dispatcher?.stop()
+  await harness?.cleanup()
+  receiver?.stop(true)
+  dispatcher = null
+  harness = null
+  receiver = null
+})
+
+/** A local stand-in receiver answering with `statuses` in turn (then 200). */
+function startReceiver(statuses: number[] = []): { url: string; received: Received[] } {
+  const received: Received[] = []
+  receiver = Bun.serve({
+    port: 0,
+    hostname: "127.0.0.1",
+    async fetch(request) {
+      received.push({ headers: request.headers, body: await request.text() })
+      return new Response("ok", { status: statuses.shift() ?? 200 })
+    },
+  })
+  return { url: `http://127.0.0.1:${receiver.port}/hook`, received }
+}
+
+async function start(fixtures: string[], settings: Record<string, unknown>) {
+  harness = await createHarness({ fixtures, settings: { webhookSecret: SECRET, webhookRetryBaseSeconds: 0.01, ...settings } })
+  dispatcher = new WebhookDispatcher(harness.ctx, harness.manager)
+  dispatcher.init()
+  return { ...harness, dispatcher }
+}
+
+describe("outbound webhooks", () => {
+  test("posts signed lifecycle events and logs the deliveries", async () => {
+    const { url, received } = startReceiver()
+    const { manager, dispatcher } = await start(["success"], { webhookUrls: url })
+
+    const { projectId } = await manager.createProject("Landing", "A landing page")
+    await waitFor(() => statusOf(manager, projectId) === "completed")
+    const success = () => received.find((r) => r.body.includes('"status":"success"'))
+    await waitFor(() => success() !== undefined)
+
+    for (const { headers, body } of received) {
+      expect(headers.get("x-pearbot-signature")).toBe(signPayload(SECRET, headers.get("x-pearbot-timestamp")!, body))
+    }
+    expect(JSON.parse(success()!.body)).toMatchObject({
+      event: "project.notification",
+      project: { id: projectId, name: "Landing" },
+      data: { status: "success", content: "The page is ready." },
+    })
+
+    const statuses = received
+      .filter((r) => r.headers.get("x-pearbot-event") === "project.status")
+      .map((r) => JSON.parse(r.body).data.to)
+    expect(statuses).toContain("completed")
+    await waitFor(() => dispatcher.getDeliveries().every((d) => d.status === "delivered"))
+    expect(dispatcher.getDeliveries({ projectId })).toHaveLength(received.length)
+
+    // Deleting the project drops its log, except the delivery announcing it
+    await manager.deleteProject(projectId)
+    expect(dispatcher.getDeliveries({ projectId }).map((d) => d.event)).toEqual(["project.status"])
+  })
+
+  test("retries with backoff until the receiver accepts", async () => {
+    const { url, received } = startReceiver([500, 503])
+    const { manager, dispatcher } = await start(["clarify"], { webhookUrls: url, webhookEvents: "project.notification" })
+
+    await manager.createProject("Dashboard", "Admin dashboard")
+    await waitFor(() => dispatcher.getDeliveries({ status: "delivered" }).length === 1)
+
+    expect(dispatcher.getDeliveries()[0]).toMatchObject({ attempts: 3, responseStatus: 200, error: null })
+    expect(received.map((r) => r.headers.get("x-pearbot-delivery"))).toEqual(Array(3).fill(dispatcher.getDeliveries()[0].id))
+  })
+
+  test("gives up after the last attempt", async () => {
+    const { url } = startReceiver([500, 500])
+    const { manager, dispatcher } = await start(["clarify"], {
+      webhookUrls: url,
+      webhookEvents: "project.notification",
+      webhookMaxAttempts: 2,
+    })
+
+    await manager.createProject("Dashboard", "Admin dashboard")
+    await waitFor(() => dispatcher.getDeliveries({ status: "failed" }).length === 1)
+    expect(dispatcher.getDeliveries()[0]).toMatchObject({ attempts: 2, responseStatus: 500, nextAttemptAt: null })
+    expect(dispatcher.getDeliveries()[0].error).toStartWith("HTTP 500")
+  })
+
+  test("client errors are not retried", async () => {
+    const { url, received } = startReceiver([404])
+    const { manager, dispatcher } = await start(["clarify"], { webhookUrls: url, webhookEvents: "project.notification" })
+
+    await manager.createProject("Dashboard", "Admin dashboard")
+    await waitFor(() => dispatcher.getDeliveries({ status: "failed" }).length === 1)
+    expect(dispatcher.getDeliveries()[0]).toMatchObject({ attempts: 1, responseStatus: 404 })
+    expect(received).toHaveLength(1)
+  })
+})
@@ -0,0 +1,87 @@
+import type { ProjectNotification } from "./types"
+
+/**
+ * Rate limiting for progress notifications forwarded to chat. Updates over
+ * the per-project or global limit are held, coalesced per project (latest
+ * wins), and drained into a periodic digest.
+ */
+
+const WINDOW_MS = 60 * 1000
+
+export interface ThrottleLimits {
+  /** Minimum gap between forwarded progress updates of one project (0 = none) */
+  minIntervalMs: number
+  /** Progress updates forwarded across all projects per minute (0 = unlimited) */
+  maxPerMinute: number
+}
+
+export interface DigestEntry {
+  projectId: string
+  latest: ProjectNotification
+  /** Earlier held updates the latest one replaced */
+  coalesced: number
+  /** Phases passed through while held, in order */
+  phases: string[]
+}
+
+export class ProgressThrottle {
+  private lastSent: Map<string, number> = new Map()
+  private recent: number[] = []
+  private held: Map<string, DigestEntry> = new Map()
+
+  constructor(private limits: ThrottleLimits) {}
+
+  /**
+   * Whether a progress update may be forwarded now. If not, it is held for
+   * the next digest. A forwarded update supersedes anything held for the
+   * same project.
+   */
+  admit(projectId: string, notification: ProjectNotification, now = Date.now()): boolean {
+    this.recent = this.recent.filter((t) => now - t < WINDOW_MS)
+    const last = this.lastSent.get(projectId)
+    const projectLimited = last !== undefined && now - last < this.limits.minIntervalMs
+    const globalLimited = this.limits.maxPerMinute > 0 && this.recent.length >= this.limits.maxPerMinute
+
+    if (projectLimited || globalLimited) {
+      this.hold(projectId, notification)
+      return false
+    }
+
+    this.held.delete(projectId)
+    this.lastSent.set(projectId, now)
+    this.recent.push(now)
+    return true
+  }
+
+  /** Drop anything held for a project (a final notification supersedes it). */
+  discard(projectId: string): void {
+    this.held.delete(projectId)
+  }
+
+  /** Take everything held, oldest project first, and count it as sent. */
+  drain(now = Date.now()): DigestEntry[] {
+    const entries = Array.from(this.held.values())
+    this.held.clear()
+    for (const entry of entries) this.lastSent.set(entry.projectId, now)
+    return entries
+  }
+
+  /** Forget a project entirely, e.g. after it is deleted. */
+  forget(projectId: string): void {
+    this.held.delete(projectId)
+    this.lastSent.delete(projectId)
+  }
+
+  private hold(projectId: string, notification: ProjectNotification): void {
+    const entry = this.held.get(projectId)
+    if (!entry) {
+      this.held.set(projectId, { projectId, latest: notification, coalesced: 0, phases: notification.phase ? [notification.phase] : [] })
+      return
+    }
+    entry.latest = notification
+    entry.coalesced++
+    if (notification.phase && entry.phases[entry.phases.length - 1] !== notification.phase) {
+      entry.phases.push(notification.phase)
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { createHash, randomBytes } from "crypto"
+import { ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from "./errors"
+import type { PluginDb } from "./manager"
+import type { ApiToken, AuditEntry, PluginContext, TokenScope } from "./types"
+
+/**
+ * API tokens for the REST routes. A token is shown once when it is minted;
+ * only its SHA-256 hash is stored. Requests send it as `Authorization: Bearer
+ * <token>` (or `?token=` for clients that cannot set headers, like
+ * EventSource) and need the scope their route declares. Reads need `read`,
+ * starting and stopping dev servers `serve`, destructive or plugin-wide
+ * operations `admin`, and anything else that changes a project `build`.
+ * Every call made with a token, allowed or not, goes into the audit log.
+ */
+
+export const TOKEN_SCOPES: TokenScope[] = ["read", "build", "serve", "admin"]
+
+const TOKEN_PREFIX = "pbt_"
+const AUDIT_LOG_SIZE = 5000
+const AUDIT_DEFAULT_LIMIT = 100
+const AUDIT_MAX_LIMIT = 1000
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex")
+}
+
+function tokenFrom(request: Request): string | null {
+  const bearer = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1]
+  return bearer?.trim() || new URL(request.url).searchParams.get("token")
+}
+
+function rowToToken(row: Record<string, unknown>): ApiToken {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    scopes: JSON.parse(row.scopes_json as string),
+    createdAt: row.created_at as string,
+    lastUsedAt: (row.last_used_at as string) || null,
+    revokedAt: (row.revoked_at as string) || null,
+  }
+}
+
+export class TokenStore {
+  /** Tokens of requests still being handled, so their response can be audited */
+  private pending: WeakMap<Request, { tokenId: string; scope: TokenScope }> = new WeakMap()
+
+  constructor(private ctx: PluginContext) {}
+
+  init(): void {
+    const db = this.getDb()
+    db.run(`
+      CREATE TABLE IF NOT EXISTS pearbot_tokens (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        scopes_json TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT,
+        revoked_at TEXT
+      )
+    `)
+    db.run(`
+      CREATE TABLE IF NOT EXISTS pearbot_audit (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        token_id TEXT NOT NULL,
+        method TEXT NOT NULL,
+        path TEXT NOT NULL,
+        scope TEXT NOT NULL,
+        status INTEGER NOT NULL,
+        at TEXT NOT NULL
+      )
+    `)
+  }
+
+  /** Create a token. The returned secret is not stored and cannot be shown again. */
+  mint(name: string, scopes: string[]): { token: string; record: ApiToken } {
+    const trimmed = name.trim()
+    if (!trimmed) throw new ValidationError("A token name is required")
+    const unknown = scopes.filter((s) => !TOKEN_SCOPES.includes(s as TokenScope))
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown scope(s) ${unknown.join(", ")}; expected ${TOKEN_SCOPES.join(", ")}`)
+    }
+    const unique = TOKEN_SCOPES.filter((s) => scopes.includes(s))
+    if (unique.length === 0) throw new ValidationError("At least one scope is required")
+
+    const token = TOKEN_PREFIX + randomBytes(32).toString("base64url")
+    const record: ApiToken = {
+      id: `tok_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      name: trimmed,
+      scopes: unique,
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+      revokedAt: null,
+    }
+    this.getDb().run(
+      "INSERT INTO pearbot_tokens (id, name, token_hash, scopes_json, created_at) VALUES (?, ?, ?, ?, ?)",
+      record.id, record.name, hashToken(token), JSON.stringify(record.scopes), record.createdAt
+    )
+    return { token, record }
+  }
+
+  revoke(id: string): ApiToken {
+    const row = this.getDb().query("SELECT * FROM pearbot_tokens WHERE id = ?").get(id)
+    if (!row) throw new NotFoundError(`Token ${id} not found`)
+    if (!row.revoked_at) {
+      row.revoked_at = new Date().toISOString()
+      this.getDb().run("UPDATE pearbot_tokens SET revoked_at = ? WHERE id = ?", row.revoked_at, id)
+    }
+    return rowToToken(row)
+  }
+
+  list(): ApiToken[] {
+    return this.getDb().query("SELECT * FROM pearbot_tokens ORDER BY created_at, rowid").all().map(rowToToken)
+  }
+
+  /**
+   * Check a request against the scope its route requires. Throws a 401 without
+   * a valid token and a 403 when the token lacks the scope.
+   */
+  authorize(request: Request, scope: TokenScope): ApiToken {
+    const secret = tokenFrom(request)
+    if (!secret) throw new UnauthorizedError("An API token is required; mint one with the pearbot_token tool")
+    const row = this.getDb()
+      .query("SELECT * FROM pearbot_tokens WHERE token_hash = ? AND revoked_at IS NULL")
+      .get(hashToken(secret))
+    if (!row) throw new UnauthorizedError("Invalid or revoked API token")
+
+    const token = rowToToken(row)
+    this.pending.set(request, { tokenId: token.id, scope })
+    this.getDb().run("UPDATE pearbot_tokens SET last_used_at = ? WHERE id = ?", new Date().toISOString(), token.id)
+
+    if (!token.scopes.includes(scope) && !token.scopes.includes("admin")) {
+      throw new ForbiddenError(`Token ${token.id} lacks the "${scope}" scope`)
+    }
+    return token
+  }
+
+  /** Audit the response to a request that presented a valid token. */
+  recordResponse(request: Request, status: number): void {
+    const entry = this.pending.get(request)
+    if (!entry) return
+    this.pending.delete(request)
+    // Never the full URL: a token may be in its query string
+    const path = new URL(request.url).pathname
+    try {
+      this.getDb().run(
+        "INSERT INTO pearbot_audit (token_id, method, path, scope, status, at) VALUES (?, ?, ?, ?, ?, ?)",
+        entry.tokenId, request.method, path, entry.scope, status, new Date().toISOString()
+      )
+      this.getDb().run(
+        "DELETE FROM pearbot_audit WHERE id <= (SELECT MAX(id) FROM pearbot_audit) - ?",
+        AUDIT_LOG_SIZE
+      )
+    } catch (error) {
+      this.ctx.log.error(`Failed to audit ${request.method} ${path}:`, error)
+    }
+  }
+
+  /** The audit log, newest first. */
+  getAudit(options: { tokenId?: string; limit?: number } = {}): AuditEntry[] {
+    const limit = Math.min(Math.max(options.limit ?? AUDIT_DEFAULT_LIMIT, 1), AUDIT_MAX_LIMIT)
+    const rows = options.tokenId
+      ? this.getDb().query("SELECT * FROM pearbot_audit WHERE token_id = ? ORDER BY id DESC LIMIT ?").all(options.tokenId, limit)
+      : this.getDb().query("SELECT * FROM pearbot_audit ORDER BY id DESC LIMIT ?").all(limit)
+    return rows.map((row) => ({
+      id: row.id as number,
+      tokenId: row.token_id as string,
+      method: row.method as string,
+      path: row.path as string,
+      scope: row.scope as TokenScope,
+      status: row.status as number,
+      at: row.at as string,
+    }))
+  }
+
+  private getDb(): PluginDb {
+    return this.ctx.getDb() as PluginDb
+  }
+}
@@ -57,20 +57,292 @@ export interface PluginRegistrations {
 // ── Project Builder Types ───────────────────────────────────
 
 export type ProjectStatus =
+  | "queued"
   | "creating"
   | "building"
   | "waiting_for_input"
+  | "verifying"
   | "serving"
   | "completed"
   | "failed"
   | "stopped"
+  | "archived"
 
 export interface ProjectNotification {
-  status: "progress" | "clarify" | "success" | "failed"
+  /** "stalled" is raised by PearBot itself, never by the agent */
+  status: "progress" | "clarify" | "success" | "failed" | "stalled"
   phase?: string
+  /** Agent's estimate of percent complete (0–100) */
+  progress?: number
+  /** Agent's estimate of time remaining, free-form (e.g. "10m") */
+  eta?: string
   content: string
+  /** clarify only: identifies the question in replies */
+  questionId?: string
+  /** clarify only: the choices offered, if the question is multiple choice */
+  options?: string[]
+  /** clarify only: answer used when nobody replies before `deadline` */
+  default?: string
+  /** clarify only: ISO timestamp after which the default is applied */
+  deadline?: string
 }
 
+/**
+ * How much progress chatter is forwarded to chat: every update, only phase
+ * changes, or nothing but questions and final results.
+ */
+export type NotificationVerbosity = "all" | "milestones" | "final-only"
+
+export interface ClarifyQuestion {
+  projectId: string
+  id: string
+  question: string
+  options: string[] | null
+  default: string | null
+  deadline: string | null
+  /** "defaulted" when the deadline passed; "cancelled" when the agent exited first */
+  status: "pending" | "answered" | "defaulted" | "cancelled"
+  answer: string | null
+  /** Free-text remarks sent along with a choice */
+  note: string | null
+  askedAt: string
+  answeredAt: string | null
+}
+
+export type TranscriptEntryKind =
+  | "user"
+  | "assistant_text"
+  | "tool_use"
+  | "tool_result"
+  | "result"
+  | "stderr"
+
+export interface TranscriptEntry {
+  projectId: string
+  seq: number
+  kind: TranscriptEntryKind
+  content: string
+  data: Record<string, unknown> | null
+  createdAt: string
+}
+
+export interface QueuedBuild {
+  projectId: string
+  kind: "create" | "open"
+  /** Full initial prompt for "create" jobs; the user's task for "open" jobs */
+  prompt: string
+  /** "open" jobs only: start a clean session instead of resuming */
+  fresh: boolean
+  enqueuedAt: string
+}
+
+export interface SessionRecord {
+  sessionId: string
+  parentSessionId: string | null
+  mode: "new" | "resume" | "fallback"
+  startedAt: string
+}
+
+export interface Checkpoint {
+  hash: string
+  shortHash: string
+  message: string
+  createdAt: string
+}
+
+export type ActivityKind =
+  | "file_written"
+  | "file_edited"
+  | "file_read"
+  | "command"
+  | "search"
+  | "web"
+  | "task"
+  | "other"
+
+export interface ActivityEntry {
+  toolUseId: string
+  kind: ActivityKind
+  tool: string
+  /** Path, command or pattern the call acts on */
+  target: string | null
+  summary: string
+  status: "running" | "ok" | "error"
+  /** Exit status for commands, when known */
+  exitCode: number | null
+  startedAt: string
+  finishedAt: string | null
+}
+
+export interface UsageTotals {
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+  costUsd: number
+  turns: number
+  wallClockMs: number
+}
+
+export interface RunUsage extends UsageTotals {
+  runId: number
+  startedAt: string
+  endedAt: string | null
+  exitCode: number | null
+}
+
+export interface RemovalPlan {
+  projectId: string
+  name: string
+  status: ProjectStatus
+  action: "delete" | "archive"
+  directory: string
+  sizeBytes: number
+  stopsAgent: boolean
+  stopsServer: boolean
+  /** Why retention selected this project; null for explicit requests */
+  reason: string | null
+  /** Where the archive is (or would be) written, for "archive" actions */
+  archivePath: string | null
+}
+
+export interface RetentionReport {
+  dryRun: boolean
+  actions: RemovalPlan[]
+}
+
+export interface ProjectFileContent {
+  path: string
+  size: number
+  mimeType: string
+  binary: boolean
+  encoding: "utf-8" | "base64"
+  /** Empty for binary files unless base64 content was requested */
+  content: string
+  byteRange: { start: number; end: number } | null
+  lineRange: { start: number; end: number; total: number } | null
+  truncated: boolean
+}
+
+export type VerificationStepName = "install" | "build" | "test"
+
+export interface VerificationStep {
+  name: VerificationStepName
+  command: string
+  /** null when the step timed out or could not be started */
+  exitCode: number | null
+  timedOut: boolean
+  durationMs: number
+  /** Tail of the combined stdout/stderr */
+  output: string
+}
+
+export interface VerificationRecord {
+  status: "running" | "passed" | "failed" | "skipped" | "cancelled"
+  /** 1 for the first verification after a task, +1 for each retry by the agent */
+  attempt: number
+  /** Directory the commands ran in (the detected project root) */
+  directory: string
+  steps: VerificationStep[]
+  startedAt: string
+  finishedAt: string | null
+}
+
+export type PearBotEventType =
+  | "status"
+  | "notification"
+  | "tool"
+  | "activity"
+  | "agent"
+  | "server"
+  | "checkpoint"
+  | "usage"
+  | "verification"
+  | "question"
+
+export type WebhookEventName =
+  | "project.status"
+  | "project.notification"
+  | "server.started"
+  | "server.stopped"
+  | "verification.finished"
+
+export interface WebhookDelivery {
+  id: string
+  url: string
+  event: WebhookEventName
+  projectId: string
+  /** "pending" while attempts remain; "failed" once they are used up */
+  status: "pending" | "delivered" | "failed"
+  attempts: number
+  /** HTTP status of the last attempt, null if it got no response */
+  responseStatus: number | null
+  error: string | null
+  payload: Record<string, unknown>
+  createdAt: string
+  updatedAt: string
+  nextAttemptAt: string | null
+}
+
+export interface ProjectEnvVar {
+  name: string
+  /** Secret values are never listed and are redacted from transcripts, logs and status */
+  secret: boolean
+  /** Null for secrets */
+  value: string | null
+  updatedAt: string
+}
+
+export type TokenScope = "read" | "build" | "serve" | "admin"
+
+export interface ApiToken {
+  id: string
+  name: string
+  /** "admin" grants every other scope too */
+  scopes: TokenScope[]
+  createdAt: string
+  lastUsedAt: string | null
+  revokedAt: string | null
+}
+
+export interface AuditEntry {
+  id: number
+  tokenId: string
+  method: string
+  path: string
+  /** The scope the route required */
+  scope: TokenScope
+  /** Response status; 403 when the token lacked the scope */
+  status: number
+  at: string
+}
+
+export interface PearBotEvent {
+  id: number
+  projectId: string
+  type: PearBotEventType
+  data: Record<string, unknown>
+  timestamp: string
+}
+
+/**
+ * How a project's builder agent is run. Null fields fall back to the agent
+ * CLI's own defaults.
+ */
+export interface AgentPolicy {
+  model: string | null
+  maxTurns: number | null
+  /** When set, only these tools are permitted; permission bypass is off */
+  allowedTools: string[] | null
+  /** Tools the agent may never use */
+  disallowedTools: string[] | null
+  /** Appended to PearBot's builder system prompt */
+  systemPromptAppend: string | null
+}
+
+/** A change to a policy: omitted fields are kept, null clears one. */
+export type AgentPolicyUpdate = { [K in keyof AgentPolicy]?: AgentPolicy[K] }
+
 export interface ProjectMetadata {
   id: string
   name: string
@@ -86,5 +358,16 @@ export interface ProjectMetadata {
   serverProcess: unknown | null
   agentProcess: unknown | null
   sessionId: string | null
-  outputBuffer: string
+  queuePosition: number | null
+  archivePath: string | null
+  usage: UsageTotals
+  /** Spend limit for this project in USD; null means unlimited */
+  budgetUsd: number | null
+  /** Which progress notifications are forwarded to chat */
+  verbosity: NotificationVerbosity
+  agentPolicy: AgentPolicy
+  /** Rolling one-line summary of the agent's latest tool call */
+  currentActivity: string | null
+  /** Latest PearBot-run install/build/test check, if any */
+  verification: VerificationRecord | null
 }
@@ -0,0 +1,194 @@
+import { spawn } from "bun"
+import { existsSync, readFileSync } from "fs"
+import { join } from "path"
+import type { Sandbox } from "./sandbox"
+import type { VerificationStep, VerificationStepName } from "./types"
+
+/**
+ * Post-build verification: detect a project's install, build and test
+ * commands and run them, so "success" means more than the agent's word.
+ */
+
+/** Characters of output kept per step */
+const OUTPUT_TAIL_CHARS = 8000
+/** npm's placeholder test script, which always fails */
+const NPM_DEFAULT_TEST = /no test specified/
+
+export interface PlannedStep {
+  name: VerificationStepName
+  command: string[]
+}
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, "utf-8"))
+  } catch {
+    return null
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/** A package.json's string-valued scripts. */
+function packageScripts(pkg: Record<string, unknown>): Record<string, string> {
+  const scripts: Record<string, string> = {}
+  if (!isRecord(pkg.scripts)) return scripts
+  for (const [name, script] of Object.entries(pkg.scripts)) {
+    if (typeof script === "string") scripts[name] = script
+  }
+  return scripts
+}
+
+function nodePackageManager(root: string): string {
+  if (existsSync(join(root, "bun.lock")) || existsSync(join(root, "bun.lockb"))) return "bun"
+  if (existsSync(join(root, "pnpm-lock.yaml"))) return "pnpm"
+  if (existsSync(join(root, "yarn.lock"))) return "yarn"
+  return "npm"
+}
+
+/** The project's own virtualenv interpreter, or null if it has none yet. */
+function projectPython(root: string): string | null {
+  for (const venv of [".venv", "venv"]) {
+    const bin = join(root, venv, "bin", "python")
+    if (existsSync(bin)) return bin
+  }
+  return null
+}
+
+function usesPytest(root: string): boolean {
+  if (["pytest.ini", "conftest.py", "tests"].some((f) => existsSync(join(root, f)))) return true
+  try {
+    return readFileSync(join(root, "pyproject.toml"), "utf-8").includes("[tool.pytest")
+  } catch {
+    return false
+  }
+}
+
+/** Work out which steps apply to the project in `root`. Returns [] if none are recognised. */
+export function detectVerificationSteps(root: string): PlannedStep[] {
+  const pkg = readJson(join(root, "package.json"))
+  if (isRecord(pkg)) {
+    const pm = nodePackageManager(root)
+    const scripts = packageScripts(pkg)
+    const steps: PlannedStep[] = []
+    const install = pm === "npm" && existsSync(join(root, "package-lock.json")) ? ["npm", "ci"] : [pm, "install"]
+    steps.push({ name: "install", command: install })
+    if (scripts.build) steps.push({ name: "build", command: [pm, "run", "build"] })
+    if (scripts.test && !NPM_DEFAULT_TEST.test(scripts.test)) steps.push({ name: "test", command: [pm, "run", "test"] })
+    return steps
+  }
+
+  if (existsSync(join(root, "Cargo.toml"))) {
+    return [
+      { name: "build", command: ["cargo", "build"] },
+      { name: "test", command: ["cargo", "test"] },
+    ]
+  }
+
+  if (existsSync(join(root, "go.mod"))) {
+    return [
+      { name: "build", command: ["go", "build", "./..."] },
+      { name: "test", command: ["go", "test", "./..."] },
+    ]
+  }
+
+  const isPython = ["requirements.txt", "pyproject.toml", "manage.py", "app.py"].some((f) => existsSync(join(root, f)))
+  if (isPython) {
+    const steps: PlannedStep[] = []
+    let python = projectPython(root)
+    if (existsSync(join(root, "requirements.txt"))) {
+      if (python) {
+        steps.push({ name: "install", command: [python, "-m", "pip", "install", "-q", "-r", "requirements.txt"] })
+      } else {
+        // Never install into the host's interpreter (read-only under bubblewrap anyway)
+        python = join(root, ".venv", "bin", "python")
+        steps.push({
+          name: "install",
+          command: ["sh", "-c", "python3 -m venv .venv && .venv/bin/python -m pip install -q -r requirements.txt"],
+        })
+      }
+    }
+    python ??= "python3"
+    if (existsSync(join(root, "manage.py"))) {
+      steps.push({ name: "build", command: [python, "manage.py", "check"] })
+      steps.push({ name: "test", command: [python, "manage.py", "test"] })
+    } else if (usesPytest(root)) {
+      steps.push({ name: "test", command: [python, "-m", "pytest", "-q"] })
+    }
+    return steps
+  }
+
+  return []
+}
+
+/**
+ * Run one step to completion (or until `timeoutMs`), capturing the tail of
+ * its combined output. `onSpawn` receives the process so callers can kill it.
+ * With a sandbox, the step can only write inside `root`.
+ */
+export async function runVerificationStep(
+  root: string,
+  step: PlannedStep,
+  timeoutMs: number,
+  onSpawn?: (proc: { kill(): void }) => void,
+  sandbox?: Sandbox,
+  env: Record<string, string> = {}
+): Promise<VerificationStep> {
+  const startedAt = Date.now()
+  // CI=1 keeps test runners out of watch mode and installers non-interactive
+  const sandboxed = sandbox
+    ? sandbox.wrap(step.command, { writableDir: root, cwd: root, env: { ...env, CI: "1" } })
+    : { command: step.command, env: { ...process.env, ...env, CI: "1" } }
+  let proc
+  try {
+    proc = spawn(sandboxed.command, {
+      cwd: root,
+      env: sandboxed.env,
+      stdin: "ignore",
+      stdout: "pipe",
+      stderr: "pipe",
+    })
+  } catch (error) {
+    return {
+      name: step.name,
+      command: step.command.join(" "),
+      exitCode: null,
+      timedOut: false,
+      durationMs: 0,
+      output: `Could not start: ${error instanceof Error ? error.message : String(error)}`,
+    }
+  }
+  onSpawn?.(proc)
+
+  let output = ""
+  const collect = async (stream: ReadableStream<Uint8Array>) => {
+    const decoder = new TextDecoder()
+    for await (const chunk of stream) {
+      output += decoder.decode(chunk, { stream: true })
+      if (output.length > OUTPUT_TAIL_CHARS * 2) output = output.slice(-OUTPUT_TAIL_CHARS)
+    }
+  }
+
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    try { proc.kill() } catch { /* Already dead */ }
+  }, timeoutMs)
+
+  const [exitCode] = await Promise.all([proc.exited, collect(proc.stdout), collect(proc.stderr)])
+  clearTimeout(timer)
+
+  const violation = timedOut ? null : sandbox?.describeViolation(exitCode, output)
+  if (violation) output += `\n[pearbot] ${step.name} ${violation} and was stopped by the sandbox`
+
+  return {
+    name: step.name,
+    command: step.command.join(" "),
+    exitCode: timedOut ? null : exitCode,
+    timedOut,
+    durationMs: Date.now() - startedAt,
+    output: output.slice(-OUTPUT_TAIL_CHARS),
+  }
+}
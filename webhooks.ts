@@ -0,0 +1,284 @@
+import { createHmac } from "crypto"
+import type { PearBotManager, PluginDb } from "./manager"
+import type { PearBotEvent, PluginContext, WebhookDelivery, WebhookEventName } from "./types"
+
+/**
+ * Outbound webhooks: lifecycle events from the manager are POSTed as signed
+ * JSON to every configured URL. Each (event, URL) pair is one delivery,
+ * persisted with its attempts so failures can be inspected and pending
+ * retries survive a restart.
+ *
+ * Requests carry `X-PearBot-Timestamp` (unix seconds) and, when a secret is
+ * set, `X-PearBot-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">`.
+ */
+
+export const WEBHOOK_EVENTS: WebhookEventName[] = [
+  "project.status",
+  "project.notification",
+  "server.started",
+  "server.stopped",
+  "verification.finished",
+]
+
+const REQUEST_TIMEOUT_MS = 10_000
+const MAX_BACKOFF_MS = 60 * 60 * 1000
+const DELIVERY_LOG_SIZE = 1000
+const DELIVERIES_DEFAULT_LIMIT = 50
+const DELIVERIES_MAX_LIMIT = 500
+const ERROR_MAX_CHARS = 500
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+}
+
+/** Which webhook event a manager event maps to, if any. */
+function webhookEventFor(event: PearBotEvent): WebhookEventName | null {
+  switch (event.type) {
+    case "status":
+      return "project.status"
+    case "notification":
+      return "project.notification"
+    case "server":
+      if (event.data.state === "running") return "server.started"
+      if (["stopped", "exited", "failed"].includes(event.data.state as string)) return "server.stopped"
+      return null
+    case "verification":
+      return ["passed", "failed", "skipped"].includes(event.data.state as string) ? "verification.finished" : null
+    default:
+      return null
+  }
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || "").split(",").map((v) => v.trim()).filter(Boolean)
+}
+
+export class WebhookDispatcher {
+  private urls: string[]
+  private secret: string
+  private events: Set<WebhookEventName>
+  private maxAttempts: number
+  private retryBaseMs: number
+  private retryTimers: Set<ReturnType<typeof setTimeout>> = new Set()
+  private inFlight: Set<Promise<void>> = new Set()
+  private listener = (event: PearBotEvent) => this.handleEvent(event)
+  private stopped = false
+
+  constructor(private ctx: PluginContext, private manager: PearBotManager) {
+    this.urls = splitList(ctx.getSetting<string>("webhookUrls"))
+    this.secret = ctx.getSetting<string>("webhookSecret") || ""
+    const events = splitList(ctx.getSetting<string>("webhookEvents")) as WebhookEventName[]
+    this.events = new Set(events.length > 0 ? events.filter((e) => WEBHOOK_EVENTS.includes(e)) : WEBHOOK_EVENTS)
+    this.maxAttempts = Math.max(1, ctx.getSetting<number>("webhookMaxAttempts") || 5)
+    this.retryBaseMs = (ctx.getSetting<number>("webhookRetryBaseSeconds") || 10) * 1000
+  }
+
+  init(): void {
+    this.getDb().run(`
+      CREATE TABLE IF NOT EXISTS pearbot_webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        event TEXT NOT NULL,
+        project_id TEXT NOT NULL,
+        payload_json TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        next_attempt_at TEXT
+      )
+    `)
+
+    if (this.urls.length > 0 && !this.secret) {
+      this.ctx.log.warn("webhookUrls is set without webhookSecret; deliveries will not be signed")
+    }
+    this.manager.on("event", this.listener)
+
+    // Retries that were waiting when the plugin last stopped
+    for (const delivery of this.getDeliveries({ status: "pending", limit: DELIVERIES_MAX_LIMIT })) {
+      const delay = delivery.nextAttemptAt ? new Date(delivery.nextAttemptAt).getTime() - Date.now() : 0
+      this.schedule(delivery.id, Math.max(0, delay))
+    }
+  }
+
+  /** Stop listening and cancel scheduled retries; they stay pending in the log. */
+  async stop(): Promise<void> {
+    this.stopped = true
+    this.manager.off("event", this.listener)
+    for (const timer of this.retryTimers) clearTimeout(timer)
+    this.retryTimers.clear()
+    await Promise.all(this.inFlight)
+  }
+
+  /** The delivery log, newest first. */
+  getDeliveries(
+    options: { status?: WebhookDelivery["status"]; projectId?: string; limit?: number } = {}
+  ): WebhookDelivery[] {
+    const where: string[] = []
+    const params: unknown[] = []
+    if (options.status) {
+      where.push("status = ?")
+      params.push(options.status)
+    }
+    if (options.projectId) {
+      where.push("project_id = ?")
+      params.push(options.projectId)
+    }
+    const limit = Math.min(Math.max(options.limit ?? DELIVERIES_DEFAULT_LIMIT, 1), DELIVERIES_MAX_LIMIT)
+    return this.getDb()
+      .query(
+        `SELECT * FROM pearbot_webhook_deliveries ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+         ORDER BY created_at DESC, rowid DESC LIMIT ?`
+      )
+      .all(...params, limit)
+      .map((row) => ({
+        id: row.id as string,
+        url: row.url as string,
+        event: row.event as WebhookEventName,
+        projectId: row.project_id as string,
+        status: row.status as WebhookDelivery["status"],
+        attempts: row.attempts as number,
+        responseStatus: (row.response_status as number | null) ?? null,
+        error: (row.error as string) || null,
+        payload: JSON.parse(row.payload_json as string),
+        createdAt: row.created_at as string,
+        updatedAt: row.updated_at as string,
+        nextAttemptAt: (row.next_attempt_at as string) || null,
+      }))
+  }
+
+  private handleEvent(event: PearBotEvent): void {
+    if (this.stopped) return
+    if (event.type === "status" && event.data.to === "deleted") this.forgetProject(event.projectId)
+    if (this.urls.length === 0) return
+    const name = webhookEventFor(event)
+    if (!name || !this.events.has(name)) return
+
+    const project = this.manager.getStatus(event.projectId)[0]
+    const data: Record<string, unknown> = { ...event.data }
+    if (name === "verification.finished" && project?.verification) data.verification = project.verification
+
+    for (const url of this.urls) {
+      const id = `whd_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
+      const payload = {
+        id,
+        event: name,
+        timestamp: event.timestamp,
+        project: project ? { id: project.id, name: project.name, status: project.status } : { id: event.projectId },
+        data,
+      }
+      try {
+        this.getDb().run(
+          `INSERT INTO pearbot_webhook_deliveries
+            (id, url, event, project_id, payload_json, status, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)`,
+          id, url, name, event.projectId, JSON.stringify(payload), event.timestamp, event.timestamp
+        )
+        this.pruneLog()
+      } catch (error) {
+        this.ctx.log.error(`Failed to record webhook delivery for ${event.projectId}:`, error)
+        continue
+      }
+      this.attempt(id)
+    }
+  }
+
+  private schedule(id: string, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(timer)
+      this.attempt(id)
+    }, delayMs)
+    this.retryTimers.add(timer)
+  }
+
+  private attempt(id: string): void {
+    const run = this.deliver(id).catch((error) => {
+      this.ctx.log.error(`Webhook delivery ${id} failed unexpectedly:`, error)
+    })
+    this.inFlight.add(run)
+    run.finally(() => this.inFlight.delete(run))
+  }
+
+  private async deliver(id: string): Promise<void> {
+    const row = this.getDb().query("SELECT * FROM pearbot_webhook_deliveries WHERE id = ?").get(id)
+    if (!row || row.status !== "pending") return
+
+    const body = row.payload_json as string
+    const timestamp = String(Math.floor(Date.now() / 1000))
+    const headers: Record<string, string> = {
+      "content-type": "application/json",
+      "user-agent": "PearBot-Webhooks",
+      "x-pearbot-event": row.event as string,
+      "x-pearbot-delivery": id,
+      "x-pearbot-timestamp": timestamp,
+    }
+    if (this.secret) headers["x-pearbot-signature"] = signPayload(this.secret, timestamp, body)
+
+    let responseStatus: number | null = null
+    let error: string | null = null
+    try {
+      const response = await fetch(row.url as string, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      })
+      responseStatus = response.status
+      if (!response.ok) error = `HTTP ${response.status}: ${(await response.text()).substring(0, ERROR_MAX_CHARS)}`
+    } catch (e) {
+      error = (e instanceof Error ? e.message : String(e)).substring(0, ERROR_MAX_CHARS)
+    }
+
+    const attempts = (row.attempts as number) + 1
+    // Client errors other than timeouts and rate limits will not fix themselves
+    const permanent = responseStatus !== null && responseStatus >= 400 && responseStatus < 500
+      && responseStatus !== 408 && responseStatus !== 429
+    const retry = error !== null && !permanent && attempts < this.maxAttempts
+    const delay = Math.min(this.retryBaseMs * 2 ** (attempts - 1), MAX_BACKOFF_MS)
+    const status: WebhookDelivery["status"] = error === null ? "delivered" : retry ? "pending" : "failed"
+    const now = new Date()
+
+    this.getDb().run(
+      `UPDATE pearbot_webhook_deliveries
+       SET status = ?, attempts = ?, response_status = ?, error = ?, updated_at = ?, next_attempt_at = ?
+       WHERE id = ?`,
+      status, attempts, responseStatus, error, now.toISOString(),
+      retry ? new Date(now.getTime() + delay).toISOString() : null, id
+    )
+
+    if (status === "failed") {
+      this.ctx.log.warn(`Webhook ${row.event} to ${row.url} failed after ${attempts} attempt(s): ${error}`)
+    }
+    if (retry && !this.stopped) this.schedule(id, delay)
+  }
+
+  /**
+   * Drop a deleted project's settled deliveries. Pending retries still go out,
+   * and the delivery announcing the deletion is kept; the log size cap ages
+   * both out like any other entry.
+   */
+  private forgetProject(projectId: string): void {
+    try {
+      this.getDb().run(
+        "DELETE FROM pearbot_webhook_deliveries WHERE project_id = ? AND status != 'pending'",
+        projectId
+      )
+    } catch (error) {
+      this.ctx.log.error(`Failed to delete webhook deliveries for ${projectId}:`, error)
+    }
+  }
+
+  private pruneLog(): void {
+    this.getDb().run(
+      `DELETE FROM pearbot_webhook_deliveries WHERE status != 'pending' AND id NOT IN
+        (SELECT id FROM pearbot_webhook_deliveries ORDER BY created_at DESC, rowid DESC LIMIT ?)`,
+      DELIVERY_LOG_SIZE
+    )
+  }
+
+  private getDb(): PluginDb {
+    return this.ctx.getDb() as PluginDb
+  }
+}